@@ -0,0 +1,18 @@
+import { Component, Entity } from "@/ecs";
+
+/**
+ * Children component - entities whose Parent is this entity
+ * Maintained automatically; add Parent to the child instead of editing this.
+ */
+export class Children extends Component {
+  public entities: Entity[];
+
+  constructor(entities: Entity[] = []) {
+    super();
+    this.entities = entities;
+  }
+
+  getType(): string {
+    return "Children";
+  }
+}
@@ -0,0 +1,19 @@
+import { Component } from "@/ecs";
+import { Vec3 } from "@/voxel";
+
+/**
+ * Chunk component - marks a terrain chunk entity streamed by ChunkManager
+ * The entity's Transform sits at the chunk's minimum world corner.
+ */
+export class Chunk extends Component {
+  public coord: Vec3; // Chunk coordinates (world position / chunk size)
+
+  constructor(coord: Vec3) {
+    super();
+    this.coord = coord;
+  }
+
+  getType(): string {
+    return "Chunk";
+  }
+}
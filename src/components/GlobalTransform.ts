@@ -0,0 +1,26 @@
+import { Component } from "@/ecs";
+import { mat4, vec3 } from "gl-matrix";
+
+/**
+ * GlobalTransform component - world-space matrix computed from the
+ * entity's Transform and its ancestors by TransformPropagationSystem
+ */
+export class GlobalTransform extends Component {
+  public matrix: mat4;
+
+  constructor(matrix: mat4 = mat4.create()) {
+    super();
+    this.matrix = matrix;
+  }
+
+  /**
+   * World-space position
+   */
+  getPosition(out: vec3 = vec3.create()): vec3 {
+    return mat4.getTranslation(out, this.matrix);
+  }
+
+  getType(): string {
+    return "GlobalTransform";
+  }
+}
@@ -0,0 +1,19 @@
+import { Component, Entity } from "@/ecs";
+
+/**
+ * Parent component - attaches an entity to a parent entity
+ * The entity's Transform is then relative to the parent's GlobalTransform.
+ * The parent's Children list is kept in sync by TransformPropagationSystem.
+ */
+export class Parent extends Component {
+  public entity: Entity;
+
+  constructor(entity: Entity) {
+    super();
+    this.entity = entity;
+  }
+
+  getType(): string {
+    return "Parent";
+  }
+}
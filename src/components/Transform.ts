@@ -1,8 +1,9 @@
 import { Component } from "@/ecs";
-import { vec3 } from "gl-matrix";
+import { vec3, mat4, quat } from "gl-matrix";
 
 /**
  * Transform component - position, rotation, scale
+ * Relative to the parent entity when the entity has a Parent
  */
 export class Transform extends Component {
   public position: vec3;
@@ -20,6 +21,24 @@ export class Transform extends Component {
     this.scale = scale;
   }
 
+  /**
+   * Compose translation * rotation (Euler XYZ, radians) * scale
+   */
+  getLocalMatrix(out: mat4 = mat4.create()): mat4 {
+    const rotation = quat.fromEuler(
+      quat.create(),
+      this.rotation[0] * (180 / Math.PI), // fromEuler takes degrees
+      this.rotation[1] * (180 / Math.PI),
+      this.rotation[2] * (180 / Math.PI)
+    );
+    return mat4.fromRotationTranslationScale(
+      out,
+      rotation,
+      this.position,
+      this.scale
+    );
+  }
+
   getType(): string {
     return "Transform";
   }
@@ -1,5 +1,5 @@
 import { Component } from "@/ecs";
-import { Octree } from "@/voxel";
+import { ChunkNeighbours, VoxelStorage } from "@/voxel";
 
 /**
  * Mesh generation algorithm type
@@ -14,6 +14,21 @@ export enum MeshAlgorithm {
    * Smooth organic shapes using marching cubes
    */
   MARCHING_CUBES = "marching_cubes",
+
+  /**
+   * Same blocks as CUBIC with coplanar faces merged (far fewer triangles)
+   */
+  GREEDY = "greedy",
+
+  /**
+   * Smooth like MARCHING_CUBES with shared vertices and fewer slivers
+   */
+  SURFACE_NETS = "surface_nets",
+
+  /**
+   * Smooth surfaces that keep sharp edges and corners
+   */
+  DUAL_CONTOURING = "dual_contouring",
 }
 
 /**
@@ -21,23 +36,29 @@ export enum MeshAlgorithm {
  * Can be used for terrain chunks, dynamic voxel structures, etc.
  */
 export class VoxelData extends Component {
-  public octree: Octree;
+  public storage: VoxelStorage;
   public needsRemesh: boolean;
   public algorithm: MeshAlgorithm;
+  /**
+   * Storages of the surrounding chunks, for entities that are one chunk of
+   * a larger volume. Meshing then reads one voxel into each neighbour so
+   * the chunks' surfaces join up.
+   */
+  public neighbours?: ChunkNeighbours;
 
   /**
    * Create voxel data component
-   * @param octree - Octree holding voxel density data
+   * @param storage - Voxel density data (Octree, DenseVoxelStorage, ...)
    * @param needsRemesh - Whether the mesh needs to be regenerated
    * @param algorithm - Which mesh generation algorithm to use
    */
   constructor(
-    octree: Octree,
+    storage: VoxelStorage,
     needsRemesh = true,
     algorithm = MeshAlgorithm.MARCHING_CUBES
   ) {
     super();
-    this.octree = octree;
+    this.storage = storage;
     this.needsRemesh = needsRemesh;
     this.algorithm = algorithm;
   }
@@ -1,9 +1,14 @@
 export { Transform } from "./Transform";
 export { Velocity } from "./Velocity";
-export { RigidBody } from "./RigidBody";
+export { RigidBody, type RigidBodyConfig } from "./RigidBody";
 export { Player } from "./Player";
 export { VoxelMesh } from "./VoxelMesh";
 export { VoxelData, MeshAlgorithm } from "./VoxelData";
 export { PhysicsBody } from "./PhysicsBody";
 export { CameraTarget } from "./CameraTarget";
 export { NetworkEntity } from "./NetworkEntity";
+export { Parent } from "./Parent";
+export { Children } from "./Children";
+export { GlobalTransform } from "./GlobalTransform";
+export { Chunk } from "./Chunk";
+export { registerComponentSerializers } from "./serializers";
@@ -0,0 +1,146 @@
+import { ComponentRegistry } from "@/ecs";
+import {
+  Octree,
+  DenseVoxelStorage,
+  PaletteVoxelStorage,
+  VoxelStorage,
+} from "@/voxel";
+import { vec3 } from "gl-matrix";
+import { Transform } from "./Transform";
+import { Velocity } from "./Velocity";
+import { RigidBody } from "./RigidBody";
+import { Player } from "./Player";
+import { VoxelData, MeshAlgorithm } from "./VoxelData";
+import { CameraTarget } from "./CameraTarget";
+import { Parent } from "./Parent";
+
+// Missing fields fall back to constructor defaults, so partial data
+// (e.g. prefab overrides) is accepted
+const toVec3 = (values?: number[]): vec3 | undefined =>
+  values ? vec3.fromValues(values[0], values[1], values[2]) : undefined;
+
+/**
+ * Register serializers for the built-in components
+ *
+ * Not registered (rebuilt at runtime): PhysicsBody (physics handle),
+ * VoxelMesh (generated), GlobalTransform/Children (derived from the
+ * hierarchy), NetworkEntity (session-specific IDs).
+ */
+export function registerComponentSerializers(
+  registry: ComponentRegistry
+): void {
+  registry.register("Transform", Transform, {
+    serialize: (t) => ({
+      position: Array.from(t.position),
+      rotation: Array.from(t.rotation),
+      scale: Array.from(t.scale),
+    }),
+    deserialize: (data) =>
+      new Transform(
+        toVec3(data.position),
+        toVec3(data.rotation),
+        toVec3(data.scale)
+      ),
+  });
+
+  registry.register("Velocity", Velocity, {
+    serialize: (v) => ({
+      linear: Array.from(v.linear),
+      angular: Array.from(v.angular),
+    }),
+    deserialize: (data) =>
+      new Velocity(toVec3(data.linear), toVec3(data.angular)),
+  });
+
+  registry.register("RigidBody", RigidBody, {
+    serialize: (body) => ({ ...body }),
+    deserialize: (data) => new RigidBody(data),
+  });
+
+  registry.register("Player", Player, {
+    serialize: (player) => ({
+      moveSpeed: player.moveSpeed,
+      lookSpeed: player.lookSpeed,
+    }),
+    deserialize: (data) => new Player(data.moveSpeed, data.lookSpeed),
+  });
+
+  registry.register("CameraTarget", CameraTarget, {
+    serialize: (target) => ({
+      followDistance: target.followDistance,
+      heightOffset: target.heightOffset,
+      lookAtOffset: Array.from(target.lookAtOffset),
+      smooth: target.smooth,
+    }),
+    deserialize: (data) =>
+      new CameraTarget({ ...data, lookAtOffset: toVec3(data.lookAtOffset) }),
+  });
+
+  registry.register("Parent", Parent, {
+    // A parent that isn't saved is dropped; the child loads as a root
+    serialize: (parent, context) => {
+      const entity = context.entityId(parent.entity);
+      return entity === null ? undefined : { entity };
+    },
+    deserialize: (data, context) => {
+      const entity = context.entity(data.entity);
+      if (!entity) {
+        throw new Error(`Parent refers to unknown entity ${data.entity}`);
+      }
+      return new Parent(entity);
+    },
+  });
+
+  // Voxels are stored as a flat [x, y, z, density, material, ...] array;
+  // "storage" selects the implementation (octree when absent)
+  registry.register("VoxelData", VoxelData, {
+    serialize: (voxelData) => {
+      const { storage } = voxelData;
+      const voxels: number[] = [];
+      storage.forEachVoxel((x, y, z, voxel) =>
+        voxels.push(x, y, z, voxel.density, voxel.material)
+      );
+      return {
+        storage:
+          storage instanceof DenseVoxelStorage
+            ? "dense"
+            : storage instanceof PaletteVoxelStorage
+            ? "palette"
+            : "octree",
+        worldSize: storage.getWorldSize(),
+        ...(storage instanceof Octree && { maxLevel: storage.getMaxLevel() }),
+        algorithm: voxelData.algorithm,
+        voxels,
+      };
+    },
+    deserialize: (data) => {
+      let storage: VoxelStorage;
+      switch (data.storage ?? "octree") {
+        case "dense":
+          storage = new DenseVoxelStorage(data.worldSize);
+          break;
+        case "palette":
+          storage = new PaletteVoxelStorage(data.worldSize);
+          break;
+        case "octree":
+          storage = new Octree(data.worldSize, data.maxLevel);
+          break;
+        default:
+          throw new Error(`Unknown voxel storage "${data.storage}"`);
+      }
+
+      const voxels: number[] = data.voxels ?? [];
+      for (let i = 0; i < voxels.length; i += 5) {
+        storage.setVoxel(
+          { x: voxels[i], y: voxels[i + 1], z: voxels[i + 2] },
+          { density: voxels[i + 3], material: voxels[i + 4] }
+        );
+      }
+      return new VoxelData(
+        storage,
+        true,
+        (data.algorithm as MeshAlgorithm) ?? MeshAlgorithm.MARCHING_CUBES
+      );
+    },
+  });
+}
@@ -15,8 +15,8 @@ export const PLAYER_MESH = {
   LOCAL_CENTER: { x: 6, y: 3.5, z: 6 },
   /** Radius of the player sphere */
   RADIUS: 3.5,
-  /** Material ID for player */
-  MATERIAL: 5,
+  /** Player material name in the MaterialRegistry */
+  MATERIAL: "player",
 } as const;
 
 /**
@@ -26,6 +26,8 @@ export const PHYSICS = {
   GRAVITY: -9.8,
   GROUND_LEVEL: 1,
   DEFAULT_FRICTION: 0.8,
+  /** Fixed simulation step in seconds (overridden by NetworkConfig.tickRate) */
+  FIXED_TIMESTEP: 1 / 60,
 } as const;
 
 /**
@@ -40,6 +42,20 @@ export const CAMERA = {
   ORTHO_SIZE: 20, // Half-width/height for orthographic projection
 } as const;
 
+/**
+ * Chunked terrain streaming (ChunkManager defaults)
+ */
+export const CHUNKS = {
+  /** Voxels per chunk edge (power of two) */
+  SIZE: 32,
+  /** Chunks within this distance (in chunks, XZ) of the focus are loaded */
+  LOAD_RADIUS: 3,
+  /** Chunks beyond this distance are unloaded (> LOAD_RADIUS to avoid thrash) */
+  UNLOAD_RADIUS: 5,
+  /** Limit chunk creation per frame to avoid hitches */
+  MAX_LOADS_PER_FRAME: 2,
+} as const;
+
 /**
  * Mesh generation constants
  */
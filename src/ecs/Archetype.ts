@@ -0,0 +1,125 @@
+import { Entity } from "./Entity";
+import { Component, ComponentClass } from "./Component";
+import type { Query } from "./Query";
+
+/**
+ * Archetype - table storage for all entities sharing the same component set
+ *
+ * Each component class owns a column; an entity's components all live at the
+ * same row index. Rows are kept dense with swap-remove.
+ */
+export class Archetype {
+  public readonly key: string;
+  public readonly componentClasses: ComponentClass[];
+  public readonly entities: Entity[] = [];
+
+  // Cached transitions to the archetype with one more / one less component
+  public readonly addEdges = new Map<ComponentClass, Archetype>();
+  public readonly removeEdges = new Map<ComponentClass, Archetype>();
+
+  // Persistent queries this archetype satisfies
+  public readonly queries: Query[] = [];
+
+  private columns = new Map<ComponentClass, Component[]>();
+
+  constructor(key: string, componentClasses: ComponentClass[]) {
+    this.key = key;
+    this.componentClasses = componentClasses;
+    for (const cls of componentClasses) {
+      this.columns.set(cls, []);
+    }
+  }
+
+  /**
+   * Number of entities stored in this archetype
+   */
+  get size(): number {
+    return this.entities.length;
+  }
+
+  /**
+   * Check if this archetype stores a component class
+   */
+  has(componentClass: ComponentClass): boolean {
+    return this.columns.has(componentClass);
+  }
+
+  /**
+   * Check if this archetype stores every given component class
+   */
+  hasAll(componentClasses: ComponentClass[]): boolean {
+    for (const cls of componentClasses) {
+      if (!this.columns.has(cls)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Append an entity and its components, returns the new row index
+   */
+  addRow(entity: Entity, components: Map<ComponentClass, Component>): number {
+    const row = this.entities.length;
+    this.entities.push(entity);
+    for (const [cls, column] of this.columns) {
+      column.push(components.get(cls)!);
+    }
+    return row;
+  }
+
+  /**
+   * Remove a row by swapping the last row into its place
+   * Returns the entity that was moved into `row`, if any
+   */
+  removeRow(row: number): Entity | undefined {
+    const last = this.entities.length - 1;
+
+    for (const column of this.columns.values()) {
+      column[row] = column[last];
+      column.pop();
+    }
+
+    const moved = this.entities[last];
+    this.entities[row] = moved;
+    this.entities.pop();
+
+    return row !== last ? moved : undefined;
+  }
+
+  /**
+   * Get a component at a row
+   */
+  getComponent<T extends Component>(
+    row: number,
+    componentClass: ComponentClass<T>
+  ): T | undefined {
+    return this.columns.get(componentClass)?.[row] as T | undefined;
+  }
+
+  /**
+   * Replace a component at a row (class must already be part of this archetype)
+   */
+  setComponent(row: number, component: Component): void {
+    const column = this.columns.get(component.constructor as ComponentClass);
+    if (column) {
+      column[row] = component;
+    }
+  }
+
+  /**
+   * Collect all components stored at a row
+   */
+  getRowComponents(row: number): Map<ComponentClass, Component> {
+    const components = new Map<ComponentClass, Component>();
+    for (const [cls, column] of this.columns) {
+      components.set(cls, column[row]);
+    }
+    return components;
+  }
+
+  /**
+   * Get the dense column for a component class
+   */
+  getColumn<T extends Component>(componentClass: ComponentClass<T>): T[] {
+    return (this.columns.get(componentClass) ?? []) as T[];
+  }
+}
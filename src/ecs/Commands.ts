@@ -0,0 +1,109 @@
+import { Entity } from "./Entity";
+import { Component, ComponentClass } from "./Component";
+import type { World } from "./World";
+
+type Command = (world: World) => void;
+
+/**
+ * Commands - deferred buffer for structural world changes
+ *
+ * Systems queue create/destroy/add/remove here instead of mutating the world
+ * while iterating query results. The World applies the buffer in FIFO order
+ * at sync points: before each update and after every stage (and after every
+ * fixed step), so iteration stays safe and ordering is deterministic.
+ */
+export class Commands {
+  private world: World;
+  private queue: Command[] = [];
+  private reserved = new Set<Entity>(); // Handles whose create hasn't run
+
+  constructor(world: World) {
+    this.world = world;
+  }
+
+  /**
+   * Number of queued commands
+   */
+  get length(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Queue creation of an entity
+   * The handle is reserved immediately so it can be used in later commands
+   */
+  createEntity(...components: Component[]): Entity {
+    const entity = this.world.reserveEntity();
+    this.reserved.add(entity);
+    this.queue.push((world) => {
+      this.reserved.delete(entity);
+      if (!world.isAlive(entity)) return; // Destroyed before apply
+      world.createReservedEntity(entity);
+      for (const component of components) {
+        world.addComponent(entity, component);
+      }
+    });
+    return entity;
+  }
+
+  /**
+   * Queue destruction of an entity
+   */
+  destroyEntity(entity: Entity): void {
+    this.queue.push((world) => world.destroyEntity(entity));
+  }
+
+  /**
+   * Queue adding (or replacing) a component
+   */
+  addComponent<T extends Component>(entity: Entity, component: T): void {
+    this.queue.push((world) => {
+      if (world.isAlive(entity)) world.addComponent(entity, component);
+    });
+  }
+
+  /**
+   * Queue removing a component
+   */
+  removeComponent<T extends Component>(
+    entity: Entity,
+    componentClass: ComponentClass<T>
+  ): void {
+    this.queue.push((world) => world.removeComponent(entity, componentClass));
+  }
+
+  /**
+   * Apply all queued commands in order
+   * Commands queued while applying (e.g. from hooks) run in the same pass
+   * If a command throws, the error propagates; commands that already ran
+   * are never replayed, and those after it stay queued for the next apply()
+   */
+  apply(): void {
+    while (this.queue.length > 0) {
+      const batch = this.queue;
+      this.queue = [];
+
+      for (let i = 0; i < batch.length; i++) {
+        try {
+          batch[i](this.world);
+        } catch (error) {
+          this.queue = batch.slice(i + 1).concat(this.queue);
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Drop all queued commands without applying them
+   * Handles reserved by createEntity() for entities that were never created
+   * are released.
+   */
+  clear(): void {
+    this.queue.length = 0;
+    for (const entity of this.reserved) {
+      this.world.destroyEntity(entity);
+    }
+    this.reserved.clear();
+  }
+}
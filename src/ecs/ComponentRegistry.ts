@@ -0,0 +1,90 @@
+import { Entity } from "./Entity";
+import { Component, ComponentClass } from "./Component";
+
+/**
+ * Maps live entities to document IDs while serializing
+ */
+export interface SerializeContext {
+  /** Document ID of an entity, or null if it isn't part of the document */
+  entityId(entity: Entity): number | null;
+}
+
+/**
+ * Maps document IDs back to entities while deserializing
+ */
+export interface DeserializeContext {
+  /** Entity created for a document ID, or null if the ID is unknown */
+  entity(id: number): Entity | null;
+}
+
+/**
+ * Converts one component type to and from plain JSON data
+ */
+export interface ComponentSerializer<T extends Component = Component> {
+  /** Data version written to documents (default: 1) */
+  version?: number;
+  /** Return undefined to leave the component out of the document */
+  serialize(component: T, context: SerializeContext): unknown;
+  deserialize(data: any, context: DeserializeContext): T;
+  /** Upgrade data written by an older version of this serializer */
+  migrate?(data: any, fromVersion: number): unknown;
+}
+
+export interface ComponentRegistration<T extends Component = Component> {
+  type: string;
+  componentClass: ComponentClass<T>;
+  serializer: ComponentSerializer<T>;
+}
+
+/**
+ * ComponentRegistry - component types by Component.getType(), with serializers
+ *
+ * Only registered components are saved; runtime-only components (physics
+ * handles, generated meshes) are simply left unregistered.
+ */
+export class ComponentRegistry {
+  private registrations = new Map<string, ComponentRegistration<any>>();
+
+  /**
+   * Register a component type
+   * @param type - Must match what instances return from getType()
+   */
+  register<T extends Component>(
+    type: string,
+    componentClass: ComponentClass<T>,
+    serializer: ComponentSerializer<T>
+  ): void {
+    const existing = this.registrations.get(type);
+    if (existing && existing.componentClass !== componentClass) {
+      throw new Error(
+        `Component type "${type}" is already registered to ${existing.componentClass.name}`
+      );
+    }
+    this.registrations.set(type, { type, componentClass, serializer });
+  }
+
+  /**
+   * Get the registration for a component type
+   */
+  get(type: string): ComponentRegistration | undefined {
+    return this.registrations.get(type);
+  }
+
+  has(type: string): boolean {
+    return this.registrations.has(type);
+  }
+
+  /**
+   * All registered type names
+   */
+  getTypes(): string[] {
+    return Array.from(this.registrations.keys());
+  }
+
+  /**
+   * Current data version of a component type
+   */
+  getVersion(type: string): number {
+    return this.registrations.get(type)?.serializer.version ?? 1;
+  }
+}
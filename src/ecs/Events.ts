@@ -0,0 +1,109 @@
+/**
+ * Constructor of an event type (events are plain class instances)
+ */
+export type EventClass<T extends object = object> = new (...args: any[]) => T;
+
+/**
+ * Events - double-buffered channel for one event type
+ *
+ * Events sent during a frame stay readable through the following frame, so
+ * a reader sees every event once regardless of whether its system runs
+ * before or after the sender. The World swaps buffers at the start of each
+ * update(); events older than two frames are dropped.
+ */
+export class Events<T extends object> {
+  private previous: T[] = [];
+  private current: T[] = [];
+  // Sequence number of the first event in `previous`
+  private previousStart = 0;
+  private sentCount = 0;
+
+  /**
+   * Send an event to all readers
+   */
+  send(event: T): void {
+    this.current.push(event);
+    this.sentCount++;
+  }
+
+  /**
+   * Create a reader that sees events sent from now on
+   */
+  reader(): EventReader<T> {
+    return new EventReader(this, this.sentCount);
+  }
+
+  /**
+   * Swap buffers, dropping events from two frames ago
+   * Called by World.update()
+   */
+  update(): void {
+    this.previousStart += this.previous.length;
+    this.previous = this.current;
+    this.current = [];
+  }
+
+  /**
+   * Drop all buffered events
+   */
+  clear(): void {
+    this.previousStart = this.sentCount;
+    this.previous = [];
+    this.current = [];
+  }
+
+  /**
+   * Number of buffered events (both frames)
+   */
+  get length(): number {
+    return this.previous.length + this.current.length;
+  }
+
+  /**
+   * Events with sequence number >= from, oldest first
+   * @internal Used by EventReader
+   */
+  eventsSince(from: number): T[] {
+    const start = Math.max(from - this.previousStart, 0);
+    const buffered = this.previous.concat(this.current);
+    return start === 0 ? buffered : buffered.slice(start);
+  }
+
+  /**
+   * Sequence number the next sent event will get
+   * @internal Used by EventReader
+   */
+  get nextSequence(): number {
+    return this.sentCount;
+  }
+}
+
+/**
+ * EventReader - per-consumer cursor into an Events channel
+ * Each reader sees each event at most once; create one per system.
+ */
+export class EventReader<T extends object> {
+  private events: Events<T>;
+  private cursor: number;
+
+  constructor(events: Events<T>, cursor: number) {
+    this.events = events;
+    this.cursor = cursor;
+  }
+
+  /**
+   * Return events not yet seen by this reader and mark them read
+   */
+  read(): T[] {
+    const unread = this.events.eventsSince(this.cursor);
+    this.cursor = this.events.nextSequence;
+    return unread;
+  }
+
+  /**
+   * Skip all pending events
+   */
+  clear(): void {
+    this.cursor = this.events.nextSequence;
+  }
+}
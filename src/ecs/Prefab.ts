@@ -0,0 +1,153 @@
+/**
+ * Named entity template
+ *
+ * Component data uses the same format as the component's serializer in the
+ * ComponentRegistry, keyed by Component.getType():
+ *
+ *   {
+ *     "name": "block",
+ *     "components": {
+ *       "Transform": { "position": [0, 0, 0] },
+ *       "RigidBody": { "mass": 1 }
+ *     }
+ *   }
+ */
+export interface PrefabDefinition {
+  name: string;
+  extends?: string; // Base prefab whose components are inherited
+  components: Record<string, unknown>;
+}
+
+/**
+ * Per-spawn component data, merged over the prefab's defaults
+ * Objects merge recursively, arrays and values replace; null drops a component.
+ */
+export type PrefabOverrides = Record<string, unknown>;
+
+/**
+ * PrefabRegistry - named entity templates, loadable from JSON
+ */
+export class PrefabRegistry {
+  private prefabs = new Map<string, PrefabDefinition>();
+
+  /**
+   * Register (or replace) a prefab
+   */
+  register(definition: PrefabDefinition): void {
+    this.prefabs.set(definition.name, definition);
+  }
+
+  /**
+   * Register prefabs from JSON text or parsed JSON
+   * Accepts a single definition, an array, or { "prefabs": [...] }
+   */
+  load(json: string | unknown): void {
+    const data = typeof json === "string" ? JSON.parse(json) : json;
+    const definitions: unknown[] = Array.isArray(data)
+      ? data
+      : Array.isArray((data as any)?.prefabs)
+      ? (data as any).prefabs
+      : [data];
+
+    for (const definition of definitions) {
+      if (
+        typeof (definition as PrefabDefinition)?.name !== "string" ||
+        !isPlainObject((definition as PrefabDefinition).components)
+      ) {
+        throw new Error("Invalid prefab: expected { name, components }");
+      }
+      this.register(definition as PrefabDefinition);
+    }
+  }
+
+  /**
+   * Fetch and register prefabs from a JSON file
+   */
+  async loadFromUrl(url: string): Promise<void> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load prefabs from ${url}: ${response.status}`);
+    }
+    this.load(await response.json());
+  }
+
+  get(name: string): PrefabDefinition | undefined {
+    return this.prefabs.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.prefabs.has(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.prefabs.keys());
+  }
+
+  /**
+   * Final component data for a prefab: base prefabs, then the prefab itself,
+   * then overrides
+   */
+  resolve(
+    name: string,
+    overrides: PrefabOverrides = {}
+  ): Record<string, unknown> {
+    const chain: PrefabDefinition[] = [];
+    for (
+      let definition = this.prefabs.get(name);
+      definition;
+      definition = definition.extends
+        ? this.prefabs.get(definition.extends)
+        : undefined
+    ) {
+      if (chain.includes(definition)) {
+        throw new Error(`Prefab "${name}" has a cyclic extends chain`);
+      }
+      chain.unshift(definition);
+      if (definition.extends && !this.prefabs.has(definition.extends)) {
+        throw new Error(
+          `Prefab "${definition.name}" extends unknown prefab "${definition.extends}"`
+        );
+      }
+    }
+
+    if (chain.length === 0) {
+      throw new Error(`Unknown prefab "${name}"`);
+    }
+
+    let components: Record<string, unknown> = {};
+    for (const definition of chain) {
+      components = mergeComponents(components, definition.components);
+    }
+    return mergeComponents(components, overrides);
+  }
+}
+
+function mergeComponents(
+  base: Record<string, unknown>,
+  overrides: Record<string, unknown>
+): Record<string, unknown> {
+  const result = { ...base };
+  for (const [type, data] of Object.entries(overrides)) {
+    if (data === null) {
+      delete result[type];
+    } else {
+      result[type] = deepMerge(result[type], data);
+    }
+  }
+  return result;
+}
+
+function deepMerge(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override;
+  }
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = deepMerge(base[key], value);
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,201 @@
+import { Entity } from "./Entity";
+import { Component, ComponentClass } from "./Component";
+import { Archetype } from "./Archetype";
+
+/**
+ * Query terms - which archetypes match and which components are fetched
+ */
+export interface QueryDescriptor {
+  /** Entity must have all of these */
+  with: ComponentClass[];
+  /** Entity must have none of these */
+  without: ComponentClass[];
+  /** Fetched when present, never affect matching */
+  optional: ComponentClass[];
+  /** Entity must have at least one class from each group */
+  anyOf: ComponentClass[][];
+  /** Component classes fetched into result tuples, in declaration order */
+  fetch: ComponentClass[];
+}
+
+/**
+ * Per-tick change sets tracked by a query
+ */
+interface QueryChanges {
+  added: Set<Entity>;
+  removed: Set<Entity>;
+  changed: Set<Entity>;
+}
+
+function createChanges(): QueryChanges {
+  return { added: new Set(), removed: new Set(), changed: new Set() };
+}
+
+/**
+ * Query - persistent, incrementally maintained view over matching entities
+ *
+ * Registered once via World.registerQuery() and kept up to date as components
+ * are added or removed. Changes made during a tick are collected and exposed
+ * through `added`, `removed` and `changed` for the whole of the next tick, so
+ * every system sees each change exactly once regardless of system order.
+ *
+ * The tick boundary is the start of World.update(), after commands queued
+ * outside the update are applied: a system running in tick N sees changes
+ * made during tick N-1 (plus those applied just before tick N started).
+ * In-place edits only count once reported with World.markChanged().
+ *
+ * `C` is the tuple of fetched components yielded by entries().
+ */
+export class Query<C extends unknown[] = Component[]> {
+  public readonly descriptor: QueryDescriptor;
+
+  private archetypes: Archetype[] = [];
+  private pending: QueryChanges = createChanges();
+  private current: QueryChanges = createChanges();
+
+  constructor(descriptor: QueryDescriptor) {
+    this.descriptor = descriptor;
+  }
+
+  /**
+   * Entities that started matching this query
+   */
+  get added(): ReadonlySet<Entity> {
+    return this.current.added;
+  }
+
+  /**
+   * Entities that stopped matching this query (or were destroyed)
+   */
+  get removed(): ReadonlySet<Entity> {
+    return this.current.removed;
+  }
+
+  /**
+   * Matching entities whose queried components were marked changed
+   */
+  get changed(): ReadonlySet<Entity> {
+    return this.current.changed;
+  }
+
+  /**
+   * Number of entities currently matching
+   */
+  get size(): number {
+    let size = 0;
+    for (const archetype of this.archetypes) {
+      size += archetype.size;
+    }
+    return size;
+  }
+
+  /**
+   * Iterate all currently matching entities
+   */
+  *[Symbol.iterator](): IterableIterator<Entity> {
+    for (const archetype of this.archetypes) {
+      // Iterate backwards so swap-removes during iteration don't skip entities
+      for (let i = archetype.entities.length - 1; i >= 0; i--) {
+        const entity = archetype.entities[i];
+        if (entity) yield entity;
+      }
+    }
+  }
+
+  /**
+   * Iterate matching entities together with their fetched components
+   */
+  *entries(): IterableIterator<[Entity, ...C]> {
+    const fetch = this.descriptor.fetch;
+
+    for (const archetype of this.archetypes) {
+      const columns = fetch.map((cls) =>
+        archetype.has(cls) ? archetype.getColumn(cls) : undefined
+      );
+
+      // Iterate backwards so swap-removes during iteration don't skip entities
+      for (let i = archetype.entities.length - 1; i >= 0; i--) {
+        const entity = archetype.entities[i];
+        if (!entity) continue;
+
+        const row: unknown[] = [entity];
+        for (const column of columns) {
+          row.push(column?.[i]);
+        }
+        yield row as [Entity, ...C];
+      }
+    }
+  }
+
+  /**
+   * Snapshot all currently matching entities into an array
+   */
+  toArray(): Entity[] {
+    const result: Entity[] = [];
+    for (const archetype of this.archetypes) {
+      for (const entity of archetype.entities) {
+        result.push(entity);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Check if an archetype satisfies this query
+   */
+  matches(archetype: Archetype): boolean {
+    const { with: all, without, anyOf } = this.descriptor;
+
+    if (!archetype.hasAll(all)) return false;
+    for (const cls of without) {
+      if (archetype.has(cls)) return false;
+    }
+    for (const group of anyOf) {
+      if (!group.some((cls) => archetype.has(cls))) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Check if a component class is one of the fetched components
+   */
+  tracks(componentClass: ComponentClass): boolean {
+    return this.descriptor.fetch.includes(componentClass);
+  }
+
+  /** @internal Called by World when a matching archetype is created */
+  addArchetype(archetype: Archetype): void {
+    this.archetypes.push(archetype);
+  }
+
+  /** @internal Called by World when an entity starts matching */
+  recordAdded(entity: Entity): void {
+    this.pending.added.add(entity);
+  }
+
+  /** @internal Called by World when an entity stops matching */
+  recordRemoved(entity: Entity): void {
+    // Entities never observed as added don't need a removal either
+    if (!this.pending.added.delete(entity)) {
+      this.pending.removed.add(entity);
+    }
+    this.pending.changed.delete(entity);
+
+    // Hide stale entries from views still being read this tick
+    this.current.added.delete(entity);
+    this.current.changed.delete(entity);
+  }
+
+  /** @internal Called by World when a queried component is marked changed */
+  recordChanged(entity: Entity): void {
+    if (!this.pending.added.has(entity)) {
+      this.pending.changed.add(entity);
+    }
+  }
+
+  /** @internal Called by World at the start of each tick */
+  advance(): void {
+    this.current = this.pending;
+    this.pending = createChanges();
+  }
+}
@@ -0,0 +1,94 @@
+import { ComponentClass } from "./Component";
+import { Query, QueryDescriptor } from "./Query";
+
+/**
+ * Map a tuple of component classes to a tuple of their instances
+ */
+export type ComponentInstances<T extends ComponentClass[]> = {
+  [K in keyof T]: T[K] extends ComponentClass<infer I> ? I : never;
+};
+
+/**
+ * Same as ComponentInstances, but every entry may be missing
+ */
+export type OptionalComponentInstances<T extends ComponentClass[]> = {
+  [K in keyof T]: T[K] extends ComponentClass<infer I> ? I | undefined : never;
+};
+
+/**
+ * QueryBuilder - fluent construction of filtered, typed queries
+ *
+ * Terms are fetched into result tuples in the order they are declared:
+ *
+ *   world.queryBuilder()
+ *     .with(Transform, RigidBody)   // [Transform, RigidBody]
+ *     .optional(Velocity)           // [..., Velocity | undefined]
+ *     .without(PhysicsBody)         // filter only, nothing fetched
+ *     .build();
+ */
+export class QueryBuilder<C extends unknown[] = []> {
+  private descriptor: QueryDescriptor = {
+    with: [],
+    without: [],
+    optional: [],
+    anyOf: [],
+    fetch: [],
+  };
+  private register: (descriptor: QueryDescriptor) => Query<any>;
+
+  constructor(register: (descriptor: QueryDescriptor) => Query<any>) {
+    this.register = register;
+  }
+
+  /**
+   * Require all of these components
+   */
+  with<T extends ComponentClass[]>(
+    ...componentClasses: T
+  ): QueryBuilder<[...C, ...ComponentInstances<T>]> {
+    this.descriptor.with.push(...componentClasses);
+    this.descriptor.fetch.push(...componentClasses);
+    return this as unknown as QueryBuilder<[...C, ...ComponentInstances<T>]>;
+  }
+
+  /**
+   * Exclude entities that have any of these components
+   */
+  without(...componentClasses: ComponentClass[]): QueryBuilder<C> {
+    this.descriptor.without.push(...componentClasses);
+    return this;
+  }
+
+  /**
+   * Fetch these components when present, without affecting matching
+   */
+  optional<T extends ComponentClass[]>(
+    ...componentClasses: T
+  ): QueryBuilder<[...C, ...OptionalComponentInstances<T>]> {
+    this.descriptor.optional.push(...componentClasses);
+    this.descriptor.fetch.push(...componentClasses);
+    return this as unknown as QueryBuilder<
+      [...C, ...OptionalComponentInstances<T>]
+    >;
+  }
+
+  /**
+   * Require at least one of these components; each is fetched when present
+   */
+  anyOf<T extends ComponentClass[]>(
+    ...componentClasses: T
+  ): QueryBuilder<[...C, ...OptionalComponentInstances<T>]> {
+    this.descriptor.anyOf.push(componentClasses);
+    this.descriptor.fetch.push(...componentClasses);
+    return this as unknown as QueryBuilder<
+      [...C, ...OptionalComponentInstances<T>]
+    >;
+  }
+
+  /**
+   * Register the query with the world (or reuse an identical one)
+   */
+  build(): Query<C> {
+    return this.register(this.descriptor) as Query<C>;
+  }
+}
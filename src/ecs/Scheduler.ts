@@ -0,0 +1,308 @@
+import { System } from "./System";
+
+/**
+ * Named execution stages, run in declaration order every frame
+ */
+export enum Stage {
+  /** Read devices and write intent (e.g. velocities) */
+  INPUT = "input",
+  /** Runs zero or more times per frame at a fixed timestep */
+  FIXED_UPDATE = "fixed-update",
+  /** General per-frame game logic */
+  UPDATE = "update",
+  /** Work that depends on this frame's simulation results */
+  POST_UPDATE = "post-update",
+  /** Prepare data for rendering (meshes, transforms) */
+  RENDER_PREP = "render-prep",
+}
+
+const STAGE_ORDER: Stage[] = [
+  Stage.INPUT,
+  Stage.FIXED_UPDATE,
+  Stage.UPDATE,
+  Stage.POST_UPDATE,
+  Stage.RENDER_PREP,
+];
+
+export type SystemClass<T extends System = System> = new (...args: any[]) => T;
+
+/**
+ * A system instance or class used in ordering constraints
+ */
+export type SystemRef = System | SystemClass;
+
+/**
+ * Scheduling options for a system
+ */
+export interface SystemOptions {
+  stage?: Stage; // Default: Stage.UPDATE
+  before?: SystemRef[]; // Run before these systems (same stage only)
+  after?: SystemRef[]; // Run after these systems (same stage only)
+}
+
+interface ScheduledSystem {
+  system: System;
+  stage: Stage;
+  before: SystemRef[];
+  after: SystemRef[];
+}
+
+/**
+ * Scheduler - runs systems by stage with before/after ordering constraints
+ *
+ * The FIXED_UPDATE stage uses an accumulator: it runs once per elapsed
+ * fixed timestep, so simulation rate is independent of render framerate.
+ * Constraints only order systems within the same stage.
+ * The sync point callback runs after every stage and every fixed step;
+ * the World uses it to apply queued Commands.
+ */
+export class Scheduler {
+  private entries: ScheduledSystem[] = [];
+  private ordered = new Map<Stage, System[]>();
+  private dirty = true;
+
+  private fixedTimestep = 1 / 60;
+  private maxFixedSteps = 5;
+  private accumulator = 0;
+  private syncPoint: () => void;
+
+  constructor(syncPoint: () => void = () => {}) {
+    this.syncPoint = syncPoint;
+  }
+
+  /**
+   * Add a system to a stage
+   * Throws (and leaves the schedule unchanged) if its constraints close a
+   * cycle with systems already added
+   */
+  add(system: System, options: SystemOptions = {}): void {
+    this.entries.push({
+      system,
+      stage: options.stage ?? Stage.UPDATE,
+      before: options.before ?? [],
+      after: options.after ?? [],
+    });
+    this.dirty = true;
+
+    // Sort now so a cycle surfaces here rather than mid-frame in run()
+    try {
+      this.sortIfDirty();
+    } catch (error) {
+      this.entries.pop();
+      this.dirty = true;
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a system from its stage
+   * @returns Whether it was scheduled
+   */
+  remove(system: System): boolean {
+    const index = this.entries.findIndex((entry) => entry.system === system);
+    if (index < 0) return false;
+
+    this.entries.splice(index, 1);
+    this.dirty = true;
+    return true;
+  }
+
+  /**
+   * Find a system instance by class
+   */
+  get<T extends System>(systemClass: SystemClass<T>): T | undefined {
+    return this.entries.find((entry) => entry.system instanceof systemClass)
+      ?.system as T | undefined;
+  }
+
+  /**
+   * Get systems of a stage in execution order
+   */
+  getStageSystems(stage: Stage): System[] {
+    this.sortIfDirty();
+    return this.ordered.get(stage) ?? [];
+  }
+
+  /**
+   * Enable or disable a system at runtime
+   */
+  setEnabled(ref: SystemRef, enabled: boolean): void {
+    for (const entry of this.entries) {
+      if (this.refersTo(ref, entry.system)) {
+        entry.system.enabled = enabled;
+      }
+    }
+  }
+
+  /**
+   * Set the fixed timestep in seconds (e.g. 1 / tickRate)
+   */
+  setFixedTimestep(seconds: number): void {
+    this.fixedTimestep = seconds;
+  }
+
+  getFixedTimestep(): number {
+    return this.fixedTimestep;
+  }
+
+  /**
+   * Cap fixed steps per frame so a slow frame can't spiral
+   */
+  setMaxFixedSteps(steps: number): void {
+    this.maxFixedSteps = steps;
+  }
+
+  /**
+   * Fraction of a fixed step left in the accumulator (for interpolation)
+   */
+  getFixedAlpha(): number {
+    return this.accumulator / this.fixedTimestep;
+  }
+
+  /**
+   * Run all stages for one frame
+   */
+  run(deltaTime: number): void {
+    this.sortIfDirty();
+
+    for (const stage of STAGE_ORDER) {
+      const systems = this.ordered.get(stage)!;
+
+      if (stage === Stage.FIXED_UPDATE) {
+        this.accumulator += deltaTime;
+        let steps = 0;
+        while (
+          this.accumulator >= this.fixedTimestep &&
+          steps < this.maxFixedSteps
+        ) {
+          this.runSystems(systems, this.fixedTimestep);
+          this.syncPoint();
+          this.accumulator -= this.fixedTimestep;
+          steps++;
+        }
+        // Drop time we couldn't catch up on
+        if (steps === this.maxFixedSteps) {
+          this.accumulator = Math.min(this.accumulator, this.fixedTimestep);
+        }
+      } else {
+        this.runSystems(systems, deltaTime);
+        this.syncPoint();
+      }
+    }
+  }
+
+  private runSystems(systems: System[], deltaTime: number): void {
+    for (const system of systems) {
+      if (system.enabled) {
+        system.update(deltaTime);
+      }
+    }
+  }
+
+  private refersTo(ref: SystemRef, system: System): boolean {
+    return ref instanceof System ? ref === system : system instanceof ref;
+  }
+
+  /**
+   * Topologically sort each stage, keeping insertion order where unconstrained
+   * Throws if the constraints contain a cycle
+   */
+  private sortIfDirty(): void {
+    if (!this.dirty) return;
+
+    for (const stage of STAGE_ORDER) {
+      const entries = this.entries.filter((entry) => entry.stage === stage);
+      this.ordered.set(
+        stage,
+        this.sortStage(stage, entries).map((e) => e.system)
+      );
+    }
+
+    this.dirty = false;
+  }
+
+  private sortStage(
+    stage: Stage,
+    entries: ScheduledSystem[]
+  ): ScheduledSystem[] {
+    // edges[i] = indices that must run after entry i
+    const edges: Set<number>[] = entries.map(() => new Set());
+
+    const resolve = (ref: SystemRef): number[] =>
+      entries
+        .map((entry, index) => (this.refersTo(ref, entry.system) ? index : -1))
+        .filter((index) => index >= 0);
+
+    entries.forEach((entry, index) => {
+      for (const ref of entry.before) {
+        for (const other of resolve(ref)) {
+          if (other !== index) edges[index].add(other);
+        }
+      }
+      for (const ref of entry.after) {
+        for (const other of resolve(ref)) {
+          if (other !== index) edges[other].add(index);
+        }
+      }
+    });
+
+    const inDegree = entries.map(() => 0);
+    for (const targets of edges) {
+      for (const target of targets) inDegree[target]++;
+    }
+
+    // Kahn's algorithm, always picking the earliest-added ready system
+    const result: ScheduledSystem[] = [];
+    const done = entries.map(() => false);
+    while (result.length < entries.length) {
+      const next = inDegree.findIndex(
+        (degree, index) => degree === 0 && !done[index]
+      );
+      if (next === -1) {
+        throw new Error(
+          `Cyclic system ordering in stage "${stage}": ${this.describeCycle(
+            entries,
+            edges,
+            done
+          )}`
+        );
+      }
+
+      done[next] = true;
+      result.push(entries[next]);
+      for (const target of edges[next]) inDegree[target]--;
+    }
+
+    return result;
+  }
+
+  /**
+   * Walk the remaining graph to name the systems forming a cycle
+   * Every unsorted system still has an unsorted predecessor, so walking
+   * predecessors must eventually revisit a system.
+   */
+  private describeCycle(
+    entries: ScheduledSystem[],
+    edges: Set<number>[],
+    done: boolean[]
+  ): string {
+    const path: number[] = [];
+    const seen = new Set<number>();
+
+    let current = done.findIndex((d) => !d);
+    while (!seen.has(current)) {
+      seen.add(current);
+      path.push(current);
+      current = edges.findIndex(
+        (targets, index) => !done[index] && targets.has(current)
+      );
+    }
+
+    // Predecessor walk is reversed; flip it to read in execution order
+    const cycle = path.slice(path.indexOf(current)).reverse();
+    cycle.push(cycle[0]);
+    return cycle
+      .map((index) => entries[index].system.constructor.name)
+      .join(" -> ");
+  }
+}
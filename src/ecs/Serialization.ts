@@ -0,0 +1,216 @@
+import { Entity } from "./Entity";
+import { Component } from "./Component";
+import {
+  ComponentRegistry,
+  SerializeContext,
+  DeserializeContext,
+} from "./ComponentRegistry";
+import type { World } from "./World";
+
+/**
+ * Current world document format version
+ * Bump this and register a migration from the old version when the layout
+ * changes.
+ */
+export const WORLD_FORMAT_VERSION = 1;
+
+export interface SerializedEntity {
+  id: number; // Document-local ID, referenced by components (e.g. Parent)
+  components: Record<string, unknown>; // Keyed by Component.getType()
+}
+
+/**
+ * Versioned JSON document produced by World.serialize()
+ */
+export interface WorldDocument {
+  version: number;
+  componentVersions: Record<string, number>;
+  entities: SerializedEntity[];
+}
+
+/**
+ * Upgrades a document from one format version to the next
+ */
+export type WorldMigration = (document: any) => WorldDocument;
+
+/**
+ * Format migrations keyed by the version they upgrade from
+ */
+const WORLD_MIGRATIONS = new Map<number, WorldMigration>();
+
+/**
+ * Register the migration that upgrades documents from a format version
+ * The migration must return a document with a higher version; chains run
+ * until WORLD_FORMAT_VERSION is reached.
+ */
+export function registerWorldMigration(
+  fromVersion: number,
+  migration: WorldMigration
+): void {
+  if (WORLD_MIGRATIONS.has(fromVersion)) {
+    throw new Error(
+      `A migration from world document version ${fromVersion} is already registered`
+    );
+  }
+  WORLD_MIGRATIONS.set(fromVersion, migration);
+}
+
+/**
+ * Serialize all entities that have at least one registered component
+ */
+export function serializeWorld(
+  world: World,
+  registry: ComponentRegistry
+): WorldDocument {
+  const serializable = new Map<Entity, Component[]>();
+  for (const entity of world.getAllEntities()) {
+    const components = world
+      .getComponents(entity)
+      .filter((component) => registry.has(component.getType()));
+    if (components.length > 0) {
+      serializable.set(entity, components);
+    }
+  }
+
+  // Entity.index -> document ID
+  const ids = new Map<number, number>();
+  for (const entity of serializable.keys()) {
+    ids.set(entity.index, ids.size);
+  }
+
+  const context: SerializeContext = {
+    entityId: (entity) =>
+      world.isAlive(entity) ? ids.get(entity.index) ?? null : null,
+  };
+
+  const componentVersions: Record<string, number> = {};
+  const entities: SerializedEntity[] = [];
+
+  for (const [entity, components] of serializable) {
+    const data: Record<string, unknown> = {};
+    for (const component of components) {
+      const type = component.getType();
+      const { serializer } = registry.get(type)!;
+      const serialized = serializer.serialize(component, context);
+      if (serialized === undefined) continue;
+      data[type] = serialized;
+      componentVersions[type] = registry.getVersion(type);
+    }
+    entities.push({ id: ids.get(entity.index)!, components: data });
+  }
+
+  return { version: WORLD_FORMAT_VERSION, componentVersions, entities };
+}
+
+/**
+ * Create the entities of a document in the world
+ * Older documents are migrated first. Unknown component types are skipped.
+ * Loading is all-or-nothing: if any component fails to load, the entities
+ * created so far are destroyed before the error is rethrown.
+ * @returns Created entities, in document order
+ */
+export function deserializeWorld(
+  world: World,
+  document: WorldDocument,
+  registry: ComponentRegistry
+): Entity[] {
+  const doc = migrateWorldDocument(document);
+
+  // Create every entity first so components can reference any of them
+  const entities = new Map<number, Entity>();
+  for (const serialized of doc.entities) {
+    entities.set(serialized.id, world.createEntity());
+  }
+
+  const context: DeserializeContext = {
+    entity: (id) => entities.get(id) ?? null,
+  };
+
+  try {
+    addDocumentComponents(world, doc, registry, entities, context);
+  } catch (error) {
+    for (const entity of entities.values()) {
+      if (world.isAlive(entity)) world.destroyEntity(entity);
+    }
+    throw error;
+  }
+
+  return Array.from(entities.values());
+}
+
+function addDocumentComponents(
+  world: World,
+  doc: WorldDocument,
+  registry: ComponentRegistry,
+  entities: Map<number, Entity>,
+  context: DeserializeContext
+): void {
+  for (const serialized of doc.entities) {
+    const entity = entities.get(serialized.id)!;
+
+    for (const [type, data] of Object.entries(serialized.components)) {
+      const registration = registry.get(type);
+      if (!registration) {
+        console.warn(`Skipping unregistered component type "${type}"`);
+        continue;
+      }
+
+      const { serializer } = registration;
+      const currentVersion = registry.getVersion(type);
+      const dataVersion = doc.componentVersions[type] ?? 1;
+
+      let componentData = data;
+      if (dataVersion > currentVersion) {
+        throw new Error(
+          `${type} data version ${dataVersion} is newer than supported (${currentVersion})`
+        );
+      } else if (dataVersion < currentVersion) {
+        if (!serializer.migrate) {
+          throw new Error(
+            `No migration for ${type} from version ${dataVersion} to ${currentVersion}`
+          );
+        }
+        componentData = serializer.migrate(data, dataVersion);
+      }
+
+      world.addComponent(
+        entity,
+        serializer.deserialize(componentData, context)
+      );
+    }
+  }
+}
+
+/**
+ * Apply format migrations until the document reaches WORLD_FORMAT_VERSION
+ */
+export function migrateWorldDocument(document: any): WorldDocument {
+  let doc = document;
+
+  if (typeof doc?.version !== "number") {
+    throw new Error("Not a world document: missing version");
+  }
+  if (doc.version > WORLD_FORMAT_VERSION) {
+    throw new Error(
+      `World document version ${doc.version} is newer than supported (${WORLD_FORMAT_VERSION})`
+    );
+  }
+
+  while (doc.version < WORLD_FORMAT_VERSION) {
+    const migrate = WORLD_MIGRATIONS.get(doc.version);
+    if (!migrate) {
+      throw new Error(
+        `No migration from world document version ${doc.version}`
+      );
+    }
+    const migrated = migrate(doc);
+    if (!(migrated?.version > doc.version)) {
+      throw new Error(
+        `Migration from world document version ${doc.version} did not raise the version`
+      );
+    }
+    doc = migrated;
+  }
+
+  return doc;
+}
@@ -0,0 +1,9 @@
+/**
+ * Time - built-in resource with frame timing, maintained by World.update()
+ */
+export class Time {
+  public delta = 0; // Seconds since the previous update
+  public elapsed = 0; // Seconds since the first update
+  public frame = 0; // Number of updates run
+  public fixedDelta = 1 / 60; // Timestep used by the FIXED_UPDATE stage
+}
@@ -0,0 +1,100 @@
+/**
+ * Query Benchmark - measures World.query() with archetype storage
+ *
+ * Populates a world with 50k entities spread over several component
+ * combinations, then times repeated queries. A linear scan over all entities
+ * (what World.query() did before archetypes) is timed for comparison.
+ *
+ * Usage:
+ *   npx tsx src/ecs/benchmarks/queryBenchmark.ts
+ */
+
+import { World, ComponentClass, Entity } from "@/ecs";
+import {
+  Transform,
+  Velocity,
+  RigidBody,
+  Player,
+  CameraTarget,
+} from "@/components";
+
+const ENTITY_COUNT = 50_000;
+const ITERATIONS = 100;
+
+/**
+ * Fill the world with entities cycling through different component sets
+ */
+function populate(world: World): void {
+  for (let i = 0; i < ENTITY_COUNT; i++) {
+    const entity = world.createEntity();
+    world.addComponent(entity, new Transform());
+
+    if (i % 2 === 0) world.addComponent(entity, new Velocity());
+    if (i % 3 === 0) world.addComponent(entity, new RigidBody());
+    if (i % 100 === 0) world.addComponent(entity, new Player());
+    if (i % 5000 === 0) world.addComponent(entity, new CameraTarget());
+  }
+}
+
+/**
+ * Pre-archetype query: walk every entity and check each class
+ */
+function linearScan(
+  world: World,
+  componentClasses: ComponentClass[]
+): Entity[] {
+  const result: Entity[] = [];
+  for (const entity of world.getAllEntities()) {
+    if (componentClasses.every((cls) => world.hasComponent(entity, cls))) {
+      result.push(entity);
+    }
+  }
+  return result;
+}
+
+/**
+ * Time a query function over several iterations, returns ms per call
+ */
+function time(run: () => Entity[]): { ms: number; matches: number } {
+  let matches = run().length; // Warm up
+  const start = performance.now();
+  for (let i = 0; i < ITERATIONS; i++) {
+    matches = run().length;
+  }
+  return { ms: (performance.now() - start) / ITERATIONS, matches };
+}
+
+export function runQueryBenchmark(): void {
+  const world = new World();
+
+  const populateStart = performance.now();
+  populate(world);
+  const populateMs = performance.now() - populateStart;
+
+  console.log(
+    `Populated ${ENTITY_COUNT} entities in ${populateMs.toFixed(1)}ms ` +
+      `(${world.getArchetypes().length} archetypes)`
+  );
+
+  const queries: ComponentClass[][] = [
+    [Transform],
+    [Transform, Velocity],
+    [Transform, RigidBody],
+    [Transform, Velocity, Player],
+    [CameraTarget],
+  ];
+
+  for (const classes of queries) {
+    const label = classes.map((cls) => cls.name).join(", ");
+    const archetype = time(() => world.query(...classes));
+    const scan = time(() => linearScan(world, classes));
+
+    console.log(
+      `query(${label}): ${archetype.matches} matches | ` +
+        `archetype ${archetype.ms.toFixed(3)}ms | ` +
+        `linear scan ${scan.ms.toFixed(3)}ms`
+    );
+  }
+}
+
+runQueryBenchmark();
@@ -1,15 +1,98 @@
 /**
- * Entity - just a unique ID
+ * Number of distinct indices packed into Entity.id before the generation
+ */
+const ENTITY_INDEX_RANGE = 2 ** 24;
+
+/**
+ * Entity - a handle made of a slot index and a generation
+ *
+ * Indices are recycled after an entity is destroyed; the generation is bumped
+ * each time, so handles to a destroyed entity can be detected as stale.
  */
 export class Entity {
-  private static nextId = 0;
-  public readonly id: number;
+  public readonly index: number;
+  public readonly generation: number;
+
+  constructor(index: number, generation = 0) {
+    this.index = index;
+    this.generation = generation;
+  }
+
+  /**
+   * Unique numeric ID combining index and generation
+   */
+  get id(): number {
+    return this.generation * ENTITY_INDEX_RANGE + this.index;
+  }
 
-  constructor() {
-    this.id = Entity.nextId++;
+  /**
+   * Check if two handles refer to the same entity lifetime
+   */
+  equals(other: Entity): boolean {
+    return this.index === other.index && this.generation === other.generation;
   }
 
   toString(): string {
-    return `Entity(${this.id})`;
+    return `Entity(${this.index}v${this.generation})`;
+  }
+}
+
+/**
+ * EntityAllocator - hands out entity handles for a single World
+ *
+ * Freed indices go on a free list and are reused with a bumped generation.
+ */
+export class EntityAllocator {
+  private generations: number[] = [];
+  private alive: boolean[] = [];
+  private freeList: number[] = [];
+
+  /**
+   * Allocate a new entity handle, reusing a freed index when available
+   */
+  allocate(): Entity {
+    const index = this.freeList.pop();
+
+    if (index !== undefined) {
+      this.alive[index] = true;
+      return new Entity(index, this.generations[index]);
+    }
+
+    const newIndex = this.generations.length;
+    if (newIndex >= ENTITY_INDEX_RANGE) {
+      throw new Error(`Entity limit of ${ENTITY_INDEX_RANGE} reached`);
+    }
+
+    this.generations.push(0);
+    this.alive.push(true);
+    return new Entity(newIndex, 0);
+  }
+
+  /**
+   * Release an entity's index; existing handles become stale
+   */
+  free(entity: Entity): void {
+    if (!this.isAlive(entity)) return;
+
+    this.alive[entity.index] = false;
+    this.generations[entity.index]++;
+    this.freeList.push(entity.index);
+  }
+
+  /**
+   * Check if a handle refers to a live entity
+   */
+  isAlive(entity: Entity): boolean {
+    return (
+      this.alive[entity.index] === true &&
+      this.generations[entity.index] === entity.generation
+    );
+  }
+
+  /**
+   * Number of live entities
+   */
+  get aliveCount(): number {
+    return this.generations.length - this.freeList.length;
   }
 }
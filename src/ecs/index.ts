@@ -1,4 +1,44 @@
-export { Entity } from "./Entity";
+export { Entity, EntityAllocator } from "./Entity";
 export { Component, type ComponentClass } from "./Component";
 export { System } from "./System";
-export { World } from "./World";
+export {
+  World,
+  type EntityHook,
+  type ComponentHook,
+  type ResourceClass,
+} from "./World";
+export { Time } from "./Time";
+export { Events, EventReader, type EventClass } from "./Events";
+export { ComponentRegistry } from "./ComponentRegistry";
+export type {
+  ComponentSerializer,
+  ComponentRegistration,
+  SerializeContext,
+  DeserializeContext,
+} from "./ComponentRegistry";
+export { PrefabRegistry } from "./Prefab";
+export type { PrefabDefinition, PrefabOverrides } from "./Prefab";
+export {
+  WORLD_FORMAT_VERSION,
+  migrateWorldDocument,
+  registerWorldMigration,
+  type WorldDocument,
+  type SerializedEntity,
+  type WorldMigration,
+} from "./Serialization";
+export { Commands } from "./Commands";
+export { Archetype } from "./Archetype";
+export { Query } from "./Query";
+export { QueryBuilder } from "./QueryBuilder";
+export type {
+  ComponentInstances,
+  OptionalComponentInstances,
+} from "./QueryBuilder";
+export type { QueryDescriptor } from "./Query";
+export {
+  Scheduler,
+  Stage,
+  type SystemOptions,
+  type SystemClass,
+  type SystemRef,
+} from "./Scheduler";
@@ -1,13 +1,20 @@
 import { World } from "./World";
+import { Commands } from "./Commands";
 
 /**
  * System - pure logic, operates on components
  */
 export abstract class System {
   protected world!: World;
+  /** Deferred structural changes; safe to use while iterating queries */
+  protected commands!: Commands;
+
+  /** Disabled systems are skipped by the scheduler */
+  public enabled = true;
 
   onAddedToWorld(world: World): void {
     this.world = world;
+    this.commands = world.getCommands();
   }
 
   abstract update(deltaTime: number): void;
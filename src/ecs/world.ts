@@ -1,41 +1,260 @@
-import { Entity } from "./Entity";
+import { Entity, EntityAllocator } from "./Entity";
 import { Component, ComponentClass } from "./Component";
 import { System } from "./System";
+import { Archetype } from "./Archetype";
+import { Query, QueryDescriptor } from "./Query";
+import { QueryBuilder } from "./QueryBuilder";
+import { Scheduler, SystemOptions, SystemClass } from "./Scheduler";
+import { Commands } from "./Commands";
+import { Time } from "./Time";
+import { Events, EventClass } from "./Events";
+import { ComponentRegistry, DeserializeContext } from "./ComponentRegistry";
+import { PrefabRegistry, PrefabOverrides } from "./Prefab";
+import {
+  WorldDocument,
+  serializeWorld,
+  deserializeWorld,
+} from "./Serialization";
+
+/**
+ * Location of an entity's components inside archetype storage
+ */
+interface EntityRecord {
+  entity: Entity;
+  archetype: Archetype;
+  row: number;
+}
+
+/**
+ * Callback for entity lifecycle events
+ */
+export type EntityHook = (entity: Entity) => void;
+
+/**
+ * Callback for a component being added to or removed from an entity
+ */
+export type ComponentHook<T extends Component = Component> = (
+  entity: Entity,
+  component: T
+) => void;
+
+/**
+ * Constructor of a resource (any class instance can be a resource)
+ */
+export type ResourceClass<T extends object = object> = new (
+  ...args: any[]
+) => T;
 
 /**
  * World - manages entities, components, and systems
+ *
+ * Components are stored in archetypes: entities with the same component set
+ * share one table, so queries only visit matching archetypes.
+ * Persistent queries registered with registerQuery() are kept up to date
+ * incrementally as entities move between archetypes.
+ * Structural changes queued on getCommands() are applied before each update
+ * and after every stage.
+ * Resources are typed singletons (one instance per class) shared by systems.
+ * Event channels (events()) carry typed messages between systems.
  */
 export class World {
-  private entities = new Set<Entity>();
-  private components = new Map<Entity, Map<ComponentClass, Component>>();
-  private systems: System[] = [];
+  private allocator = new EntityAllocator();
+  // Indexed by Entity.index; undefined for free slots
+  private records: (EntityRecord | undefined)[] = [];
+  private archetypes = new Map<string, Archetype>();
+  private componentIds = new Map<ComponentClass, number>();
+  private emptyArchetype: Archetype;
+  private queries = new Map<string, Query>();
+  private commands = new Commands(this);
+  private scheduler = new Scheduler(() => this.commands.apply());
+  private tick = 0;
+  private resources = new Map<ResourceClass, object>();
+  private time = new Time();
+  private eventChannels = new Map<EventClass, Events<any>>();
+  private componentRegistry = new ComponentRegistry();
+  private prefabs = new PrefabRegistry();
+
+  // Lifecycle hooks
+  private createHooks: EntityHook[] = [];
+  private destroyHooks: EntityHook[] = [];
+  private addHooks = new Map<ComponentClass, ComponentHook<any>[]>();
+  private removeHooks = new Map<ComponentClass, ComponentHook<any>[]>();
+
+  constructor() {
+    this.emptyArchetype = this.getOrCreateArchetype([]);
+    this.insertResource(this.time);
+  }
 
   /**
    * Create a new entity
    */
   createEntity(): Entity {
-    const entity = new Entity();
-    this.entities.add(entity);
-    this.components.set(entity, new Map());
+    return this.createReservedEntity(this.allocator.allocate());
+  }
+
+  /**
+   * Reserve an entity handle without creating the entity yet
+   * Used by Commands so queued operations can refer to the new entity.
+   */
+  reserveEntity(): Entity {
+    return this.allocator.allocate();
+  }
+
+  /**
+   * Create an entity from a handle returned by reserveEntity()
+   */
+  createReservedEntity(entity: Entity): Entity {
+    if (!this.isAlive(entity) || this.records[entity.index]) {
+      throw new Error(`${entity} is not a pending reservation`);
+    }
+
+    const row = this.emptyArchetype.addRow(entity, new Map());
+    this.records[entity.index] = {
+      entity,
+      archetype: this.emptyArchetype,
+      row,
+    };
+
+    for (const query of this.emptyArchetype.queries) {
+      query.recordAdded(entity);
+    }
+
+    for (const hook of this.createHooks) {
+      hook(entity);
+    }
+
     return entity;
   }
 
   /**
    * Destroy an entity
+   * Fires entity-destroyed hooks, then onRemove hooks for each component,
+   * while the entity and its components are still accessible.
    */
   destroyEntity(entity: Entity): void {
-    this.entities.delete(entity);
-    this.components.delete(entity);
+    if (!this.isAlive(entity)) return;
+
+    // Reserved but never created: just release the handle
+    if (!this.records[entity.index]) {
+      this.allocator.free(entity);
+      return;
+    }
+
+    for (const hook of this.destroyHooks) {
+      hook(entity);
+    }
+
+    let record = this.getRecord(entity);
+    if (!record) return; // Destroyed by a hook
+
+    for (const [cls, component] of record.archetype.getRowComponents(
+      record.row
+    )) {
+      this.fireHooks(this.removeHooks, cls, entity, component);
+    }
+
+    record = this.getRecord(entity);
+    if (!record) return;
+
+    for (const query of record.archetype.queries) {
+      query.recordRemoved(entity);
+    }
+
+    this.removeFromArchetype(record);
+    this.records[entity.index] = undefined;
+    this.allocator.free(entity);
+  }
+
+  /**
+   * Check if a handle refers to a live entity in this world
+   * Returns false for destroyed entities, even if their index was reused
+   */
+  isAlive(entity: Entity): boolean {
+    return this.allocator.isAlive(entity);
   }
 
   /**
    * Add a component to an entity
+   * Replaces an existing component of the same class (firing onRemove for
+   * the old instance before onAdd for the new one)
    */
   addComponent<T extends Component>(entity: Entity, component: T): void {
-    const entityComponents = this.components.get(entity);
-    if (entityComponents) {
-      entityComponents.set(component.constructor as ComponentClass, component);
+    const record = this.getRecord(entity);
+    if (!record) {
+      throw new Error(`Cannot add ${component.getType()} to dead ${entity}`);
+    }
+
+    const componentClass = component.constructor as ComponentClass;
+    const current = record.archetype;
+
+    if (current.has(componentClass)) {
+      const previous = current.getComponent(record.row, componentClass)!;
+      this.fireHooks(this.removeHooks, componentClass, entity, previous);
+
+      current.setComponent(record.row, component);
+      this.markChanged(entity, componentClass);
+      this.fireHooks(this.addHooks, componentClass, entity, component);
+      return;
+    }
+
+    let target = current.addEdges.get(componentClass);
+    if (!target) {
+      target = this.getOrCreateArchetype([
+        ...current.componentClasses,
+        componentClass,
+      ]);
+      current.addEdges.set(componentClass, target);
+    }
+
+    const components = current.getRowComponents(record.row);
+    components.set(componentClass, component);
+
+    this.removeFromArchetype(record);
+    record.archetype = target;
+    record.row = target.addRow(entity, components);
+
+    this.notifyMoved(entity, current, target);
+    this.fireHooks(this.addHooks, componentClass, entity, component);
+  }
+
+  /**
+   * Remove a component from an entity
+   * Fires onRemove hooks while the component is still attached
+   */
+  removeComponent<T extends Component>(
+    entity: Entity,
+    componentClass: ComponentClass<T>
+  ): void {
+    let record = this.getRecord(entity);
+    if (!record || !record.archetype.has(componentClass)) return;
+
+    const component = record.archetype.getComponent(
+      record.row,
+      componentClass
+    )!;
+    this.fireHooks(this.removeHooks, componentClass, entity, component);
+
+    // A hook may have changed the entity's structure
+    record = this.getRecord(entity);
+    if (!record || !record.archetype.has(componentClass)) return;
+
+    const current = record.archetype;
+    let target = current.removeEdges.get(componentClass);
+    if (!target) {
+      target = this.getOrCreateArchetype(
+        current.componentClasses.filter((cls) => cls !== componentClass)
+      );
+      current.removeEdges.set(componentClass, target);
     }
+
+    const components = current.getRowComponents(record.row);
+    components.delete(componentClass);
+
+    this.removeFromArchetype(record);
+    record.archetype = target;
+    record.row = target.addRow(entity, components);
+
+    this.notifyMoved(entity, current, target);
   }
 
   /**
@@ -45,8 +264,17 @@ export class World {
     entity: Entity,
     componentClass: ComponentClass<T>
   ): T | undefined {
-    const entityComponents = this.components.get(entity);
-    return entityComponents?.get(componentClass) as T | undefined;
+    const record = this.getRecord(entity);
+    return record?.archetype.getComponent(record.row, componentClass);
+  }
+
+  /**
+   * Get all components of an entity
+   */
+  getComponents(entity: Entity): Component[] {
+    const record = this.getRecord(entity);
+    if (!record) return [];
+    return Array.from(record.archetype.getRowComponents(record.row).values());
   }
 
   /**
@@ -56,7 +284,109 @@ export class World {
     entity: Entity,
     componentClass: ComponentClass<T>
   ): boolean {
-    return this.components.get(entity)?.has(componentClass) ?? false;
+    return this.getRecord(entity)?.archetype.has(componentClass) ?? false;
+  }
+
+  /**
+   * Mark a component as changed so queries tracking it report the entity
+   * in their `changed` view next tick
+   * Call after mutating a component in place; replacing it with
+   * addComponent() marks it automatically.
+   */
+  markChanged<T extends Component>(
+    entity: Entity,
+    componentClass: ComponentClass<T>
+  ): void {
+    const record = this.getRecord(entity);
+    if (!record) return;
+
+    for (const query of record.archetype.queries) {
+      if (query.tracks(componentClass)) {
+        query.recordChanged(entity);
+      }
+    }
+  }
+
+  /**
+   * Register a hook called after a component of this class is added
+   */
+  onAdd<T extends Component>(
+    componentClass: ComponentClass<T>,
+    hook: ComponentHook<T>
+  ): void {
+    this.addHook(this.addHooks, componentClass, hook);
+  }
+
+  /**
+   * Register a hook called before a component of this class is removed,
+   * replaced, or its entity destroyed
+   */
+  onRemove<T extends Component>(
+    componentClass: ComponentClass<T>,
+    hook: ComponentHook<T>
+  ): void {
+    this.addHook(this.removeHooks, componentClass, hook);
+  }
+
+  /**
+   * Register a hook called after an entity is created
+   */
+  onEntityCreated(hook: EntityHook): void {
+    this.createHooks.push(hook);
+  }
+
+  /**
+   * Register a hook called before an entity is destroyed
+   */
+  onEntityDestroyed(hook: EntityHook): void {
+    this.destroyHooks.push(hook);
+  }
+
+  /**
+   * Insert a resource, replacing any existing resource of the same class
+   */
+  insertResource<T extends object>(resource: T): T {
+    this.resources.set(resource.constructor as ResourceClass, resource);
+    return resource;
+  }
+
+  /**
+   * Get a resource by class
+   */
+  getResource<T extends object>(
+    resourceClass: ResourceClass<T>
+  ): T | undefined {
+    return this.resources.get(resourceClass) as T | undefined;
+  }
+
+  /**
+   * Check if a resource of this class exists
+   */
+  hasResource<T extends object>(resourceClass: ResourceClass<T>): boolean {
+    return this.resources.has(resourceClass);
+  }
+
+  /**
+   * Remove a resource
+   */
+  removeResource<T extends object>(resourceClass: ResourceClass<T>): void {
+    this.resources.delete(resourceClass);
+  }
+
+  /**
+   * Get the event channel for an event class, creating it on first use
+   *
+   *   world.events(CollisionStarted).send(new CollisionStarted(a, b));
+   *   const reader = world.events(CollisionStarted).reader();
+   *   for (const event of reader.read()) { ... }
+   */
+  events<T extends object>(eventClass: EventClass<T>): Events<T> {
+    let channel = this.eventChannels.get(eventClass);
+    if (!channel) {
+      channel = new Events<T>();
+      this.eventChannels.set(eventClass, channel);
+    }
+    return channel;
   }
 
   /**
@@ -64,38 +394,324 @@ export class World {
    */
   query(...componentClasses: ComponentClass[]): Entity[] {
     const result: Entity[] = [];
-    for (const entity of this.entities) {
-      const has = componentClasses.every((cls) =>
-        this.hasComponent(entity, cls)
-      );
-      if (has) {
-        result.push(entity);
+    for (const archetype of this.archetypes.values()) {
+      if (archetype.size > 0 && archetype.hasAll(componentClasses)) {
+        for (const entity of archetype.entities) {
+          result.push(entity);
+        }
       }
     }
     return result;
   }
 
+  /**
+   * Register a persistent query, or return the existing one for the same
+   * component set. Register once (e.g. in System.onAddedToWorld) and reuse.
+   */
+  registerQuery(...componentClasses: ComponentClass[]): Query {
+    return this.registerDescriptor({
+      with: componentClasses,
+      without: [],
+      optional: [],
+      anyOf: [],
+      fetch: componentClasses,
+    });
+  }
+
+  /**
+   * Start building a persistent query with with/without/optional/anyOf terms
+   */
+  queryBuilder(): QueryBuilder {
+    return new QueryBuilder((descriptor) =>
+      this.registerDescriptor(descriptor)
+    );
+  }
+
   /**
    * Add a system
+   * @param options - Stage and before/after constraints (default: UPDATE stage)
+   * @throws If the constraints form a cycle or the system's onAddedToWorld
+   *   throws (the system is not added)
+   */
+  addSystem(system: System, options?: SystemOptions): void {
+    this.scheduler.add(system, options);
+    try {
+      system.onAddedToWorld(this);
+    } catch (error) {
+      // Never leave a half-initialised system scheduled
+      this.scheduler.remove(system);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a system by class
+   */
+  getSystem<T extends System>(systemClass: SystemClass<T>): T | undefined {
+    return this.scheduler.get(systemClass);
+  }
+
+  /**
+   * Get the deferred command buffer shared by all systems
+   * Use it to create/destroy entities or add/remove components while
+   * iterating queries; changes are applied at the next sync point.
    */
-  addSystem(system: System): void {
-    this.systems.push(system);
-    system.onAddedToWorld(this);
+  getCommands(): Commands {
+    return this.commands;
   }
 
   /**
-   * Update all systems
+   * Get the scheduler (fixed timestep, enabling/disabling systems)
+   */
+  getScheduler(): Scheduler {
+    return this.scheduler;
+  }
+
+  /**
+   * Update all systems, stage by stage
+   * Commands queued outside of update (e.g. by scenes) are applied first,
+   * so their effects show up in this tick's query views.
    */
   update(deltaTime: number): void {
-    for (const system of this.systems) {
-      system.update(deltaTime);
+    this.commands.apply();
+
+    this.tick++;
+    this.time.delta = deltaTime;
+    this.time.elapsed += deltaTime;
+    this.time.frame++;
+    this.time.fixedDelta = this.scheduler.getFixedTimestep();
+
+    for (const query of this.queries.values()) {
+      query.advance();
+    }
+    for (const channel of this.eventChannels.values()) {
+      channel.update();
     }
+
+    this.scheduler.run(deltaTime);
+  }
+
+  /**
+   * Get the registry of serializable component types
+   */
+  getComponentRegistry(): ComponentRegistry {
+    return this.componentRegistry;
+  }
+
+  /**
+   * Get the registry of named entity templates
+   */
+  getPrefabRegistry(): PrefabRegistry {
+    return this.prefabs;
+  }
+
+  /**
+   * Create an entity from a prefab
+   * @param overrides - Component data merged over the prefab's defaults,
+   *   e.g. { Transform: { position: [3, 15, 5] } }
+   */
+  spawn(name: string, overrides?: PrefabOverrides): Entity {
+    const data = this.prefabs.resolve(name, overrides);
+
+    // Build every component before creating the entity, so a bad prefab
+    // doesn't leave a half-spawned entity behind
+    const context: DeserializeContext = { entity: () => null };
+    const components = Object.entries(data).map(([type, componentData]) => {
+      const registration = this.componentRegistry.get(type);
+      if (!registration) {
+        throw new Error(
+          `Prefab "${name}" uses unregistered component type "${type}"`
+        );
+      }
+      return registration.serializer.deserialize(componentData, context);
+    });
+
+    const entity = this.createEntity();
+    for (const component of components) {
+      this.addComponent(entity, component);
+    }
+    return entity;
+  }
+
+  /**
+   * Save all entities with registered components to a versioned document
+   * Entity references inside components are stored as document IDs.
+   */
+  serialize(): WorldDocument {
+    return serializeWorld(this, this.componentRegistry);
+  }
+
+  /**
+   * Load a document produced by serialize(), migrating older versions
+   * Entities are added alongside any existing ones.
+   * @returns The created entities
+   */
+  deserialize(document: WorldDocument): Entity[] {
+    return deserializeWorld(this, document, this.componentRegistry);
   }
 
   /**
    * Get all entities
    */
   getAllEntities(): Entity[] {
-    return Array.from(this.entities);
+    const result: Entity[] = [];
+    for (const record of this.records) {
+      if (record) result.push(record.entity);
+    }
+    return result;
+  }
+
+  /**
+   * Get the current tick (incremented at the start of each update())
+   */
+  getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Get all archetypes (for debugging and benchmarks)
+   */
+  getArchetypes(): Archetype[] {
+    return Array.from(this.archetypes.values());
+  }
+
+  /**
+   * Register a query from its descriptor, reusing an identical existing one
+   */
+  private registerDescriptor(descriptor: QueryDescriptor): Query<any> {
+    const key = [
+      this.getArchetypeKey(descriptor.with),
+      this.getArchetypeKey(descriptor.without),
+      descriptor.anyOf.map((group) => this.getArchetypeKey(group)).join(";"),
+      descriptor.fetch.map((cls) => this.getComponentId(cls)).join(","),
+    ].join("|");
+
+    let query = this.queries.get(key);
+    if (!query) {
+      query = new Query(descriptor);
+      this.queries.set(key, query);
+
+      for (const archetype of this.archetypes.values()) {
+        if (query.matches(archetype)) {
+          query.addArchetype(archetype);
+          archetype.queries.push(query);
+        }
+      }
+
+      // Entities that already match are reported as added on the next tick
+      for (const entity of query) {
+        query.recordAdded(entity);
+      }
+    }
+
+    return query;
+  }
+
+  /**
+   * Swap-remove an entity's row and fix up the record of the moved entity
+   */
+  private removeFromArchetype(record: EntityRecord): void {
+    const moved = record.archetype.removeRow(record.row);
+    if (moved) {
+      this.records[moved.index]!.row = record.row;
+    }
+  }
+
+  /**
+   * Look up the storage record for a live entity (undefined for stale handles)
+   */
+  private getRecord(entity: Entity): EntityRecord | undefined {
+    if (!this.allocator.isAlive(entity)) return undefined;
+    return this.records[entity.index];
+  }
+
+  private addHook(
+    hooks: Map<ComponentClass, ComponentHook<any>[]>,
+    componentClass: ComponentClass,
+    hook: ComponentHook<any>
+  ): void {
+    let list = hooks.get(componentClass);
+    if (!list) {
+      list = [];
+      hooks.set(componentClass, list);
+    }
+    list.push(hook);
+  }
+
+  private fireHooks(
+    hooks: Map<ComponentClass, ComponentHook<any>[]>,
+    componentClass: ComponentClass,
+    entity: Entity,
+    component: Component
+  ): void {
+    const list = hooks.get(componentClass);
+    if (!list) return;
+
+    for (const hook of list) {
+      hook(entity, component);
+    }
+  }
+
+  /**
+   * Report query membership changes for an entity that changed archetype
+   */
+  private notifyMoved(entity: Entity, from: Archetype, to: Archetype): void {
+    for (const query of from.queries) {
+      if (!to.queries.includes(query)) query.recordRemoved(entity);
+    }
+    for (const query of to.queries) {
+      if (!from.queries.includes(query)) query.recordAdded(entity);
+    }
+  }
+
+  /**
+   * Find or create the archetype for a set of component classes
+   */
+  private getOrCreateArchetype(componentClasses: ComponentClass[]): Archetype {
+    const sorted = this.sortComponentClasses(componentClasses);
+    const key = this.getArchetypeKey(sorted);
+
+    let archetype = this.archetypes.get(key);
+    if (!archetype) {
+      archetype = new Archetype(key, sorted);
+      this.archetypes.set(key, archetype);
+
+      for (const query of this.queries.values()) {
+        if (query.matches(archetype)) {
+          query.addArchetype(archetype);
+          archetype.queries.push(query);
+        }
+      }
+    }
+    return archetype;
+  }
+
+  /**
+   * Build an order-independent key for a set of component classes
+   */
+  private getArchetypeKey(componentClasses: ComponentClass[]): string {
+    return this.sortComponentClasses(componentClasses)
+      .map((cls) => this.getComponentId(cls))
+      .join(",");
+  }
+
+  private sortComponentClasses(
+    componentClasses: ComponentClass[]
+  ): ComponentClass[] {
+    return [...componentClasses].sort(
+      (a, b) => this.getComponentId(a) - this.getComponentId(b)
+    );
+  }
+
+  /**
+   * Get a stable numeric ID for a component class
+   */
+  private getComponentId(componentClass: ComponentClass): number {
+    let id = this.componentIds.get(componentClass);
+    if (id === undefined) {
+      id = this.componentIds.size;
+      this.componentIds.set(componentClass, id);
+    }
+    return id;
   }
 }
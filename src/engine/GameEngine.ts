@@ -1,13 +1,14 @@
-import { vec3, mat4, quat } from "gl-matrix";
+import { vec3, mat3, mat4 } from "gl-matrix";
 
-import { World } from "@/ecs";
+import { World, Stage } from "@/ecs";
 import { Camera, WebGPURenderer } from "@/renderer";
-import { Mesh } from "@/voxel";
+import { Mesh, MaterialRegistry, getSolidBounds } from "@/voxel";
 import {
   PhysicsSystem,
   InputSystem,
   MeshGenerationSystem,
   NetworkSystem,
+  TransformPropagationSystem,
 } from "@/systems";
 import {
   Transform,
@@ -15,9 +16,13 @@ import {
   VoxelMesh,
   VoxelData,
   CameraTarget,
+  GlobalTransform,
+  registerComponentSerializers,
 } from "@/components";
 import { RapierAdapter } from "@/physics";
+import { InputState, PhysicsWorld, NetworkSettings } from "@/resources";
 import { CAMERA, PLAYER_MESH, MESH_GEN, PHYSICS } from "@/constants";
+import builtinPrefabs from "@/prefabs/prefabs.json";
 import type { INetworkManager } from "@/network";
 import type { NetworkConfig } from "@/network";
 
@@ -37,6 +42,8 @@ export class GameEngine {
   private physicsAdapter: RapierAdapter;
 
   private networkSystem: NetworkSystem | null = null;
+  // Camera target centres, recomputed only when the target is remeshed
+  private meshCenters = new WeakMap<Mesh, vec3>();
   private networkManager: INetworkManager | null = null;
 
   private isRunning = false;
@@ -50,6 +57,8 @@ export class GameEngine {
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
     this.world = new World();
+    registerComponentSerializers(this.world.getComponentRegistry());
+    this.world.getPrefabRegistry().load(builtinPrefabs);
     this.renderer = new WebGPURenderer(canvas);
     this.camera = new Camera();
 
@@ -59,15 +68,27 @@ export class GameEngine {
     // Create physics adapter
     this.physicsAdapter = new RapierAdapter();
 
+    // Shared state for systems
+    this.world.insertResource(new PhysicsWorld(this.physicsAdapter));
+    this.world.insertResource(new InputState());
+    this.world.insertResource(this.camera);
+    this.world.insertResource(MaterialRegistry.createDefault());
+
     // Create systems
-    this.physicsSystem = new PhysicsSystem(this.physicsAdapter);
+    this.physicsSystem = new PhysicsSystem();
     this.inputSystem = new InputSystem();
     this.meshGenSystem = new MeshGenerationSystem(MESH_GEN.ISO_LEVEL);
 
-    // Add systems to world (order matters!)
-    this.world.addSystem(this.inputSystem);
-    this.world.addSystem(this.physicsSystem);
-    this.world.addSystem(this.meshGenSystem); // Generate meshes after physics
+    // Physics runs in the fixed-timestep stage, independent of framerate
+    this.world.getScheduler().setFixedTimestep(PHYSICS.FIXED_TIMESTEP);
+
+    // Add systems to world - stages define execution order
+    this.world.addSystem(this.inputSystem, { stage: Stage.INPUT });
+    this.world.addSystem(this.physicsSystem, { stage: Stage.FIXED_UPDATE });
+    this.world.addSystem(this.meshGenSystem, { stage: Stage.POST_UPDATE });
+    this.world.addSystem(new TransformPropagationSystem(), {
+      stage: Stage.RENDER_PREP,
+    });
 
     // Set up resize
     window.addEventListener("resize", () => {
@@ -89,6 +110,7 @@ export class GameEngine {
 
     // Initialize renderer
     await this.renderer.initialize();
+    this.renderer.setMaterials(this.world.getResource(MaterialRegistry)!);
 
     console.log("Game engine initialized");
   }
@@ -111,10 +133,15 @@ export class GameEngine {
 
     // Initialize network manager
     await this.networkManager.initialize(config);
+    this.world.insertResource(new NetworkSettings(config, networkManager));
 
-    // Create and add network system
+    // Create and add network system - ticks with physics at the network tick rate
     this.networkSystem = new NetworkSystem(this.networkManager);
-    this.world.addSystem(this.networkSystem);
+    this.world.getScheduler().setFixedTimestep(1 / config.tickRate);
+    this.world.addSystem(this.networkSystem, {
+      stage: Stage.FIXED_UPDATE,
+      after: [PhysicsSystem],
+    });
 
     // Start networking (connect or listen)
     await this.networkManager.start(serverAddress);
@@ -212,8 +239,7 @@ export class GameEngine {
     }
 
     // Third-person camera
-    const yaw = this.inputSystem.getYaw();
-    const pitch = this.inputSystem.getPitch();
+    const { yaw, pitch } = this.world.getResource(InputState)!;
 
     const offset = vec3.fromValues(
       -Math.sin(yaw) * Math.cos(pitch) * followDistance,
@@ -239,7 +265,10 @@ export class GameEngine {
       // Auto-calculate from voxel mesh center
       const voxelData = this.world.getComponent(target, VoxelData);
       if (voxelData) {
-        const meshCenter = this.calculateMeshCenter(voxelData);
+        const meshCenter = this.getMeshCenter(
+          voxelData,
+          this.world.getComponent(target, VoxelMesh)?.mesh
+        );
         vec3.add(targetPos, targetPos, meshCenter);
       } else if (!useCameraTarget) {
         // Legacy fallback for Player without voxel data
@@ -253,41 +282,32 @@ export class GameEngine {
     this.camera.setTarget(targetPos);
   }
 
+  /**
+   * Mesh center of voxel data, cached against the mesh generated from it
+   */
+  private getMeshCenter(voxelData: VoxelData, mesh?: Mesh): vec3 {
+    if (!mesh) return this.calculateMeshCenter(voxelData);
+
+    let center = this.meshCenters.get(mesh);
+    if (!center) {
+      center = this.calculateMeshCenter(voxelData);
+      this.meshCenters.set(mesh, center);
+    }
+    return center;
+  }
+
   /**
    * Calculate mesh center from voxel data
+   * Only voxels above the iso level count, matching the rendered surface.
    */
   private calculateMeshCenter(voxelData: VoxelData): vec3 {
-    const octree = voxelData.octree;
-    const worldSize = octree.getWorldSize();
-    let minX = worldSize,
-      minY = worldSize,
-      minZ = worldSize;
-    let maxX = 0,
-      maxY = 0,
-      maxZ = 0;
-    let hasVoxels = false;
-
-    for (let x = 0; x < worldSize; x++) {
-      for (let y = 0; y < worldSize; y++) {
-        for (let z = 0; z < worldSize; z++) {
-          if (octree.getDensity({ x, y, z }) > 0.5) {
-            hasVoxels = true;
-            minX = Math.min(minX, x);
-            minY = Math.min(minY, y);
-            minZ = Math.min(minZ, z);
-            maxX = Math.max(maxX, x + 1);
-            maxY = Math.max(maxY, y + 1);
-            maxZ = Math.max(maxZ, z + 1);
-          }
-        }
-      }
-    }
+    const bounds = getSolidBounds(voxelData.storage, MESH_GEN.ISO_LEVEL);
 
-    if (hasVoxels) {
+    if (bounds) {
       return vec3.fromValues(
-        (minX + maxX) / 2,
-        (minY + maxY) / 2,
-        (minZ + maxZ) / 2
+        (bounds.min.x + bounds.max.x) / 2,
+        (bounds.min.y + bounds.max.y) / 2,
+        (bounds.min.z + bounds.max.z) / 2
       );
     }
 
@@ -307,62 +327,32 @@ export class GameEngine {
     const entities = this.world.query(VoxelMesh);
     for (const entity of entities) {
       const voxelMesh = this.world.getComponent(entity, VoxelMesh)!;
+      const globalTransform = this.world.getComponent(entity, GlobalTransform);
       const transform = this.world.getComponent(entity, Transform);
 
       if (voxelMesh.mesh.vertices.length > 0) {
         const baseIndexOffset = combinedMesh.vertices.length;
 
-        // Build transformation matrix
-        const transformMatrix = mat4.create();
-
-        if (transform) {
-          // Position
-          mat4.translate(transformMatrix, transformMatrix, transform.position);
-
-          // Rotation (Euler angles to quaternion to matrix)
-          if (
-            transform.rotation[0] !== 0 ||
-            transform.rotation[1] !== 0 ||
-            transform.rotation[2] !== 0
-          ) {
-            const rotQuat = quat.create();
-            quat.fromEuler(
-              rotQuat,
-              transform.rotation[0] * (180 / Math.PI), // Convert radians to degrees for fromEuler
-              transform.rotation[1] * (180 / Math.PI),
-              transform.rotation[2] * (180 / Math.PI)
-            );
-            const rotMatrix = mat4.create();
-            mat4.fromQuat(rotMatrix, rotQuat);
-            mat4.multiply(transformMatrix, transformMatrix, rotMatrix);
-          }
-
-          // Scale (if needed in future)
-          // mat4.scale(transformMatrix, transformMatrix, transform.scale);
-        }
+        // World matrix from the hierarchy; plain Transform until the first
+        // propagation has run
+        const transformMatrix =
+          globalTransform?.matrix ??
+          transform?.getLocalMatrix() ??
+          mat4.create();
+        const normalMatrix = mat3.normalFromMat4(
+          mat3.create(),
+          transformMatrix
+        );
 
         for (const v of voxelMesh.mesh.vertices) {
           // Transform vertex position
           const pos = vec3.fromValues(v.position.x, v.position.y, v.position.z);
           vec3.transformMat4(pos, pos, transformMatrix);
 
-          // Transform normal (for lighting - use rotation only)
+          // Transform normal (for lighting - inverse transpose handles scale)
           const normal = vec3.fromValues(v.normal.x, v.normal.y, v.normal.z);
-          if (
-            transform &&
-            (transform.rotation[0] !== 0 ||
-              transform.rotation[1] !== 0 ||
-              transform.rotation[2] !== 0)
-          ) {
-            const rotQuat = quat.create();
-            quat.fromEuler(
-              rotQuat,
-              transform.rotation[0] * (180 / Math.PI),
-              transform.rotation[1] * (180 / Math.PI),
-              transform.rotation[2] * (180 / Math.PI)
-            );
-            vec3.transformQuat(normal, normal, rotQuat);
-          }
+          vec3.transformMat3(normal, normal, normalMatrix);
+          vec3.normalize(normal, normal);
 
           combinedMesh.vertices.push({
             position: {
@@ -376,6 +366,8 @@ export class GameEngine {
               z: normal[2],
             },
             color: v.color,
+            ao: v.ao,
+            material: v.material,
           });
         }
 
@@ -412,22 +404,40 @@ export class GameEngine {
 
   /**
    * Get rendering stats
+   * greedyTriangles is the part of triangles from greedy meshes, and
+   * greedyCubicTriangles what those meshes would cost as plain CUBIC.
    */
-  getStats(): { entities: number; vertices: number; triangles: number } {
+  getStats(): {
+    entities: number;
+    vertices: number;
+    triangles: number;
+    greedyTriangles: number;
+    greedyCubicTriangles: number;
+  } {
     let totalVertices = 0;
     let totalTriangles = 0;
+    let greedyTriangles = 0;
+    let greedyCubicTriangles = 0;
 
     const entities = this.world.query(VoxelMesh);
     for (const entity of entities) {
       const voxelMesh = this.world.getComponent(entity, VoxelMesh)!;
+      const triangles = Math.floor(voxelMesh.mesh.indices.length / 3);
       totalVertices += voxelMesh.mesh.vertices.length;
-      totalTriangles += Math.floor(voxelMesh.mesh.indices.length / 3);
+      totalTriangles += triangles;
+
+      if (voxelMesh.mesh.cubicTriangles !== undefined) {
+        greedyTriangles += triangles;
+        greedyCubicTriangles += voxelMesh.mesh.cubicTriangles;
+      }
     }
 
     return {
       entities: this.world.getAllEntities().length,
       vertices: totalVertices,
       triangles: totalTriangles,
+      greedyTriangles,
+      greedyCubicTriangles,
     };
   }
 }
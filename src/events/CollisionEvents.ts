@@ -0,0 +1,37 @@
+import { Entity } from "@/ecs";
+import { vec3 } from "gl-matrix";
+
+/**
+ * Sent by PhysicsSystem when two physics bodies start touching
+ */
+export class CollisionStarted {
+  public entityA: Entity;
+  public entityB: Entity;
+  public contactPoint: vec3;
+  public contactNormal: vec3; // Points from A towards B
+
+  constructor(
+    entityA: Entity,
+    entityB: Entity,
+    contactPoint: vec3,
+    contactNormal: vec3
+  ) {
+    this.entityA = entityA;
+    this.entityB = entityB;
+    this.contactPoint = contactPoint;
+    this.contactNormal = contactNormal;
+  }
+}
+
+/**
+ * Sent by PhysicsSystem when two physics bodies stop touching
+ */
+export class CollisionEnded {
+  public entityA: Entity;
+  public entityB: Entity;
+
+  constructor(entityA: Entity, entityB: Entity) {
+    this.entityA = entityA;
+    this.entityB = entityB;
+  }
+}
@@ -0,0 +1 @@
+export { CollisionStarted, CollisionEnded } from "./CollisionEvents";
@@ -76,6 +76,11 @@ class App {
       Entities: ${stats.entities} | Vertices: ${stats.vertices} | Triangles: ${
       stats.triangles
     }<br/>
+      ${
+        stats.greedyTriangles > 0
+          ? `Greedy: ${stats.greedyTriangles} triangles (${stats.greedyCubicTriangles} as cubic)<br/>`
+          : ""
+      }
       <br/>
       <strong>Controls:</strong><br/>
       WASD = Move | Mouse = Look<br/>
@@ -31,6 +31,7 @@ import { World } from "@/ecs";
 import { PhysicsSystem, MeshGenerationSystem, NetworkSystem } from "@/systems";
 import { WebSocketNetwork } from "@/network";
 import { RapierAdapter } from "@/physics";
+import { PhysicsWorld } from "@/resources";
 import { vec3 } from "gl-matrix";
 
 class HeadlessServer {
@@ -46,7 +47,8 @@ class HeadlessServer {
     // Setup physics
     const physicsAdapter = new RapierAdapter();
     await physicsAdapter.initialize(vec3.fromValues(0, -9.81, 0));
-    this.physicsSystem = new PhysicsSystem(physicsAdapter);
+    this.world.insertResource(new PhysicsWorld(physicsAdapter));
+    this.physicsSystem = new PhysicsSystem();
     this.world.addSystem(this.physicsSystem);
 
     // Setup networking
@@ -51,6 +51,7 @@ export interface ColliderDescriptor {
 export interface CollisionEvent {
   body1: PhysicsBodyHandle;
   body2: PhysicsBodyHandle;
+  started: boolean; // true when contact begins, false when it ends
   contactPoint: vec3;
   contactNormal: vec3;
 }
@@ -30,7 +30,8 @@ export class RapierAdapter implements IPhysicsAdapter {
     this.eventQueue = new RAPIER.EventQueue(true);
   }
 
-  step(_deltaTime: number): void {
+  step(deltaTime: number): void {
+    this.world.timestep = deltaTime;
     this.world.step(this.eventQueue);
 
     // Collect collision events
@@ -39,8 +40,6 @@ export class RapierAdapter implements IPhysicsAdapter {
     // Process collision events from the event queue
     this.eventQueue.drainCollisionEvents(
       (handle1: any, handle2: any, started: boolean) => {
-        if (!started) return; // Only track collision start events
-
         const collider1 = this.world.getCollider(handle1);
         const collider2 = this.world.getCollider(handle2);
 
@@ -81,6 +80,7 @@ export class RapierAdapter implements IPhysicsAdapter {
         this.collisionEvents.push({
           body1: bodyHandle1,
           body2: bodyHandle2,
+          started,
           contactPoint,
           contactNormal: normal,
         });
@@ -205,6 +205,9 @@ export class RapierAdapter implements IPhysicsAdapter {
       );
     }
 
+    // Report contact start/end through the event queue
+    colliderDesc.setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+
     // Set mass properties (mass is set on collider, not rigid body)
     if (descriptor.mass !== undefined) {
       colliderDesc.setMass(descriptor.mass);
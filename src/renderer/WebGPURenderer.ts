@@ -1,5 +1,5 @@
 import { Camera } from "./Camera";
-import { Mesh } from "@/voxel";
+import { Mesh, MaterialRegistry } from "@/voxel";
 import { vertexShader, fragmentShader } from "./shaders";
 import { MESH_GEN } from "@/constants";
 
@@ -14,7 +14,12 @@ export class WebGPURenderer {
   private renderPipeline!: GPURenderPipeline;
   private depthTexture!: GPUTexture;
   private cameraBuffer!: GPUBuffer;
-  private cameraBindGroup!: GPUBindGroup;
+  private materialBuffer!: GPUBuffer;
+  private bindGroup!: GPUBindGroup;
+
+  // Shading properties per material ID, re-uploaded when the registry changes
+  private materials: MaterialRegistry | null = null;
+  private materialVersion = -1;
 
   private vertexBuffer!: GPUBuffer;
   private indexBuffer!: GPUBuffer;
@@ -60,16 +65,13 @@ export class WebGPURenderer {
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
     });
 
-    // Create bind group for camera
-    this.cameraBindGroup = this.device.createBindGroup({
-      layout: this.renderPipeline.getBindGroupLayout(0),
-      entries: [
-        {
-          binding: 0,
-          resource: { buffer: this.cameraBuffer },
-        },
-      ],
-    });
+    // Until materials are set every ID shades as matte and opaque
+    this.createMaterialBuffer(16);
+    this.device.queue.writeBuffer(
+      this.materialBuffer,
+      0,
+      new Float32Array([1, 0, 0, 0])
+    );
 
     // Create initial buffers
     this.createMeshBuffers(
@@ -102,6 +104,11 @@ export class WebGPURenderer {
           visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
           buffer: { type: "uniform" },
         },
+        {
+          binding: 1,
+          visibility: GPUShaderStage.FRAGMENT,
+          buffer: { type: "read-only-storage" },
+        },
       ],
     });
 
@@ -116,11 +123,13 @@ export class WebGPURenderer {
         entryPoint: "main",
         buffers: [
           {
-            arrayStride: 36, // 9 floats * 4 bytes
+            arrayStride: 44, // 11 floats * 4 bytes
             attributes: [
               { format: "float32x3", offset: 0, shaderLocation: 0 }, // position
               { format: "float32x3", offset: 12, shaderLocation: 1 }, // normal
               { format: "float32x3", offset: 24, shaderLocation: 2 }, // color
+              { format: "float32", offset: 36, shaderLocation: 3 }, // ao
+              { format: "float32", offset: 40, shaderLocation: 4 }, // material
             ],
           },
         ],
@@ -128,7 +137,19 @@ export class WebGPURenderer {
       fragment: {
         module: fragmentModule,
         entryPoint: "main",
-        targets: [{ format: this.format }],
+        targets: [
+          {
+            format: this.format,
+            // Transparent materials blend over what's already drawn
+            blend: {
+              color: {
+                srcFactor: "src-alpha",
+                dstFactor: "one-minus-src-alpha",
+              },
+              alpha: { srcFactor: "one", dstFactor: "one-minus-src-alpha" },
+            },
+          },
+        ],
       },
       primitive: {
         topology: "triangle-list",
@@ -147,7 +168,7 @@ export class WebGPURenderer {
     indexCapacity: number
   ): void {
     this.vertexBuffer = this.device.createBuffer({
-      size: vertexCapacity * 36, // 9 floats * 4 bytes
+      size: vertexCapacity * 44, // 11 floats * 4 bytes
       usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
     });
 
@@ -157,6 +178,54 @@ export class WebGPURenderer {
     });
   }
 
+  /**
+   * Shade meshes with a material registry's roughness, emissive and
+   * transparency (read again whenever the registry changes)
+   */
+  setMaterials(materials: MaterialRegistry): void {
+    this.materials = materials;
+    this.materialVersion = -1;
+  }
+
+  private uploadMaterials(materials: MaterialRegistry): void {
+    // One vec4 per ID: roughness, emissive, transparency, unused
+    const data = new Float32Array((materials.getMaxId() + 1) * 4);
+    for (let id = 0; id <= materials.getMaxId(); id++) {
+      const material = materials.get(id);
+      data[id * 4 + 0] = material.roughness;
+      data[id * 4 + 1] = material.emissive;
+      data[id * 4 + 2] = material.transparency;
+    }
+
+    if (data.byteLength > this.materialBuffer.size) {
+      this.materialBuffer.destroy();
+      this.createMaterialBuffer(data.byteLength);
+    }
+    this.device.queue.writeBuffer(this.materialBuffer, 0, data);
+    this.materialVersion = materials.getVersion();
+  }
+
+  private createMaterialBuffer(size: number): void {
+    this.materialBuffer = this.device.createBuffer({
+      size,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+
+    this.bindGroup = this.device.createBindGroup({
+      layout: this.renderPipeline.getBindGroupLayout(0),
+      entries: [
+        {
+          binding: 0,
+          resource: { buffer: this.cameraBuffer },
+        },
+        {
+          binding: 1,
+          resource: { buffer: this.materialBuffer },
+        },
+      ],
+    });
+  }
+
   updateMesh(mesh: Mesh): void {
     if (mesh.vertices.length === 0) {
       this.indexCount = 0;
@@ -164,7 +233,7 @@ export class WebGPURenderer {
     }
 
     // Check if we need larger buffers
-    const requiredVertexBytes = mesh.vertices.length * 36;
+    const requiredVertexBytes = mesh.vertices.length * 44;
     const requiredIndexBytes = mesh.indices.length * 4;
 
     if (
@@ -177,10 +246,10 @@ export class WebGPURenderer {
     }
 
     // Prepare interleaved vertex data
-    const vertexData = new Float32Array(mesh.vertices.length * 9);
+    const vertexData = new Float32Array(mesh.vertices.length * 11);
     for (let i = 0; i < mesh.vertices.length; i++) {
       const v = mesh.vertices[i];
-      const offset = i * 9;
+      const offset = i * 11;
       vertexData[offset + 0] = v.position.x;
       vertexData[offset + 1] = v.position.y;
       vertexData[offset + 2] = v.position.z;
@@ -190,6 +259,8 @@ export class WebGPURenderer {
       vertexData[offset + 6] = v.color.x;
       vertexData[offset + 7] = v.color.y;
       vertexData[offset + 8] = v.color.z;
+      vertexData[offset + 9] = v.ao ?? 1.0;
+      vertexData[offset + 10] = v.material ?? 0;
     }
 
     this.device.queue.writeBuffer(this.vertexBuffer, 0, vertexData);
@@ -208,6 +279,13 @@ export class WebGPURenderer {
   ): void {
     if (this.indexCount === 0) return;
 
+    if (
+      this.materials &&
+      this.materials.getVersion() !== this.materialVersion
+    ) {
+      this.uploadMaterials(this.materials);
+    }
+
     // Update camera uniform
     const cameraData = camera.getUniformData();
     this.device.queue.writeBuffer(this.cameraBuffer, 0, cameraData);
@@ -234,7 +312,7 @@ export class WebGPURenderer {
     });
 
     renderPass.setPipeline(this.renderPipeline);
-    renderPass.setBindGroup(0, this.cameraBindGroup);
+    renderPass.setBindGroup(0, this.bindGroup);
     renderPass.setVertexBuffer(0, this.vertexBuffer);
     renderPass.setIndexBuffer(this.indexBuffer, "uint32");
     renderPass.drawIndexed(this.indexCount);
@@ -13,6 +13,8 @@ struct VertexInput {
   @location(0) position: vec3<f32>,
   @location(1) normal: vec3<f32>,
   @location(2) color: vec3<f32>,
+  @location(3) ao: f32,
+  @location(4) material: f32,
 }
 
 struct VertexOutput {
@@ -20,6 +22,8 @@ struct VertexOutput {
   @location(0) worldPos: vec3<f32>,
   @location(1) normal: vec3<f32>,
   @location(2) color: vec3<f32>,
+  @location(3) ao: f32,
+  @location(4) @interpolate(flat) material: u32,
 }
 
 @vertex
@@ -29,6 +33,8 @@ fn main(input: VertexInput) -> VertexOutput {
   output.worldPos = input.position;
   output.normal = input.normal;
   output.color = input.color;
+  output.ao = input.ao;
+  output.material = u32(input.material + 0.5);
   return output;
 }
 `;
@@ -37,11 +43,29 @@ fn main(input: VertexInput) -> VertexOutput {
  * Fragment shader for voxel rendering
  */
 export const fragmentShader = /* wgsl */ `
+struct Camera {
+  viewProj: mat4x4<f32>,
+  position: vec4<f32>,
+}
+
+// Per material ID, from the MaterialRegistry
+struct Material {
+  roughness: f32,
+  emissive: f32,
+  transparency: f32,
+  unused: f32,
+}
+
+@group(0) @binding(0) var<uniform> camera: Camera;
+@group(0) @binding(1) var<storage, read> materials: array<Material>;
+
 struct VertexOutput {
   @builtin(position) position: vec4<f32>,
   @location(0) worldPos: vec3<f32>,
   @location(1) normal: vec3<f32>,
   @location(2) color: vec3<f32>,
+  @location(3) ao: f32,
+  @location(4) @interpolate(flat) material: u32,
 }
 
 @fragment
@@ -50,11 +74,21 @@ fn main(input: VertexOutput) -> @location(0) vec4<f32> {
   let lightDir = normalize(vec3<f32>(1.0, 2.0, 1.0));
   let diffuse = max(dot(input.normal, lightDir), 0.2);
   
-  // Ambient occlusion (simple)
-  let ao = 0.8 + 0.2 * input.normal.y;
-  
-  let finalColor = input.color * diffuse * ao;
-  
-  return vec4<f32>(finalColor, 1.0);
+  // Per-vertex ambient occlusion, interpolated across the face
+  var finalColor = input.color * diffuse * input.ao;
+
+  let material = materials[min(input.material, arrayLength(&materials) - 1u)];
+
+  // Blinn-Phong highlight, tighter and brighter as roughness drops
+  let viewDir = normalize(camera.position.xyz - input.worldPos);
+  let halfDir = normalize(lightDir + viewDir);
+  let shininess = mix(64.0, 4.0, material.roughness);
+  let specular =
+    pow(max(dot(input.normal, halfDir), 0.0), shininess) * (1.0 - material.roughness);
+  finalColor += vec3<f32>(specular * input.ao);
+
+  finalColor += input.color * material.emissive;
+
+  return vec4<f32>(finalColor, 1.0 - material.transparency);
 }
 `;
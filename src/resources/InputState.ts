@@ -0,0 +1,8 @@
+/**
+ * InputState resource - look direction written by InputSystem
+ * Read by the camera and any system that needs the player's facing
+ */
+export class InputState {
+  public yaw = 0; // Radians around Y
+  public pitch = 0; // Radians, clamped to [-PI/2, PI/2]
+}
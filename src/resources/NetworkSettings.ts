@@ -0,0 +1,15 @@
+import type { INetworkManager, NetworkConfig } from "@/network";
+
+/**
+ * NetworkSettings resource - active network config and manager
+ * Only present once networking is enabled
+ */
+export class NetworkSettings {
+  public config: NetworkConfig;
+  public manager: INetworkManager;
+
+  constructor(config: NetworkConfig, manager: INetworkManager) {
+    this.config = config;
+    this.manager = manager;
+  }
+}
@@ -0,0 +1,12 @@
+import { IPhysicsAdapter } from "@/physics";
+
+/**
+ * PhysicsWorld resource - the physics adapter shared by physics systems
+ */
+export class PhysicsWorld {
+  public adapter: IPhysicsAdapter;
+
+  constructor(adapter: IPhysicsAdapter) {
+    this.adapter = adapter;
+  }
+}
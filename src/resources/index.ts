@@ -0,0 +1,3 @@
+export { InputState } from "./InputState";
+export { PhysicsWorld } from "./PhysicsWorld";
+export { NetworkSettings } from "./NetworkSettings";
@@ -1,14 +1,6 @@
 import { vec3 } from "gl-matrix";
 
-import {
-  VoxelData,
-  MeshAlgorithm,
-  RigidBody,
-  Transform,
-  Player,
-  Velocity,
-  CameraTarget,
-} from "@/components";
+import { VoxelData, MeshAlgorithm, RigidBody, Transform } from "@/components";
 import { GameEngine } from "@/engine";
 import { World } from "@/ecs";
 import { Octree } from "@/voxel";
@@ -40,30 +32,17 @@ export class ApiTestScene {
     // Add a bouncy rotating block
     this.addBlock({ x: 4, y: 0, z: 5 }, 2, 0.3, 0.8, true);
 
-    // Create player entity with camera
-    const player = this.world.createEntity();
-
-    const octree = new Octree(64, 1);
-    octree.setVoxel({ x: 0, y: 0, z: 0 }, { density: 1.0, material: 1 });
-    const voxelData = new VoxelData(octree, true, MeshAlgorithm.CUBIC);
-    this.world.addComponent(player, voxelData);
-
-    // Add Player component for movement control
-    this.world.addComponent(player, new Player(3, 0.002));
-
-    // Add CameraTarget component - orthographic camera follows player
-    this.world.addComponent(
-      player,
-      new CameraTarget({
+    // Create player entity with camera (1x1x1 cube from the "player" prefab)
+    this.world.spawn("player", {
+      Transform: { position: [5, 0, 5] },
+      Player: { moveSpeed: 3 },
+      // Orthographic camera follows player
+      CameraTarget: {
         followDistance: 20,
         heightOffset: 15,
-        lookAtOffset: vec3.fromValues(0, 0.5, 0),
-      })
-    );
-
-    this.world.addComponent(player, new Transform(vec3.fromValues(5, 0, 5)));
-    this.world.addComponent(player, new Velocity(vec3.fromValues(0, 0, 0)));
-    this.world.addComponent(player, new RigidBody({ mass: 1, friction: 0.1 }));
+        lookAtOffset: [0, 0.5, 0],
+      },
+    });
   }
 
   private addBlock(
@@ -73,34 +52,17 @@ export class ApiTestScene {
     restitution: number = 0.3,
     enableRotation: boolean = false
   ): VoxelData {
-    const octree = new Octree(64, 1);
-    // Create 1x1x1 voxel block at origin of octree
-    octree.setVoxel({ x: 0, y: 0, z: 0 }, { density: 1.0, material: 1 });
-    const voxelData = new VoxelData(octree, true, MeshAlgorithm.CUBIC);
-
-    const blockEntity = this.world.createEntity();
-    this.world.addComponent(blockEntity, voxelData);
-    this.world.addComponent(
-      blockEntity,
-      new Transform(vec3.fromValues(position.x, position.y, position.z))
-    );
-    // RigidBody with VoxelData - collision auto-calculated from voxels
-    // Mass affects inertia and collision response
-    // Restitution controls bounciness (0 = no bounce, 1 = perfect bounce)
-    // enableRotation allows the block to spin/tumble when colliding
-    this.world.addComponent(
-      blockEntity,
-      new RigidBody({
-        mass,
-        friction,
-        restitution,
-        enableRotation,
-        angularDamping: 0.3, // Some air resistance to rotation
-      })
-    );
-    voxelData.markDirty();
-
-    return voxelData;
+    // "block" prefab: 1x1x1 cubic voxel with some rotational air resistance
+    const blockEntity = this.world.spawn("block", {
+      Transform: { position: [position.x, position.y, position.z] },
+      // RigidBody with VoxelData - collision auto-calculated from voxels
+      // Mass affects inertia and collision response
+      // Restitution controls bounciness (0 = no bounce, 1 = perfect bounce)
+      // enableRotation allows the block to spin/tumble when colliding
+      RigidBody: { mass, friction, restitution, enableRotation },
+    });
+
+    return this.world.getComponent(blockEntity, VoxelData)!;
   }
 
   private createTerrain(): void {
@@ -1,5 +1,6 @@
 import { GameEngine } from "@/engine";
 import { MazeGenerator } from "@/utils/MazeGenerator";
+import { createRandom } from "@/utils/Noise";
 import {
   Transform,
   Velocity,
@@ -8,7 +9,14 @@ import {
   VoxelData,
   MeshAlgorithm,
 } from "@/components";
-import { Octree } from "@/voxel";
+import {
+  Octree,
+  VoxelEditor,
+  VoxelStorage,
+  Vec3,
+  MaterialRegistry,
+  sphereBrush,
+} from "@/voxel";
 import { vec3 } from "gl-matrix";
 import { PLAYER_MESH, PHYSICS } from "@/constants";
 
@@ -18,6 +26,8 @@ import { PLAYER_MESH, PHYSICS } from "@/constants";
 export class MazeScene {
   private mazeWidth = 31; // Odd numbers work best
   private mazeHeight = 31;
+  private mazeSeed = 1337; // Same seed, same maze on every client
+  private editor = new VoxelEditor();
 
   /**
    * Initialize the maze scene
@@ -26,11 +36,14 @@ export class MazeScene {
     console.log("Setting up maze scene...");
 
     // Generate maze
-    const mazeGen = new MazeGenerator(this.mazeWidth, this.mazeHeight);
+    const random = createRandom(this.mazeSeed);
+    const mazeGen = new MazeGenerator(this.mazeWidth, this.mazeHeight, {
+      random,
+    });
     const maze = mazeGen.generate();
 
     // Create terrain entity and build maze
-    this.buildMaze(engine, maze);
+    this.buildMaze(engine, mazeGen, maze, random);
 
     // Create player entity
     this.createPlayer(engine);
@@ -42,10 +55,12 @@ export class MazeScene {
    * Build maze geometry from maze data with thick walls for marching cubes
    * Creates terrain as a regular ECS entity - just like any other entity!
    */
-  private buildMaze(engine: GameEngine, maze: boolean[][]): void {
-    const wallHeight = 2;
-    const wallThickness = 1; // Thicker walls for more solid appearance
-
+  private buildMaze(
+    engine: GameEngine,
+    mazeGen: MazeGenerator,
+    maze: boolean[][],
+    random: () => number
+  ): void {
     // Create terrain entity - just a regular entity with VoxelData component!
     const world = engine.getWorld();
     const terrainEntity = world.createEntity();
@@ -54,46 +69,8 @@ export class MazeScene {
     const voxelData = new VoxelData(octree, true, MeshAlgorithm.MARCHING_CUBES);
     world.addComponent(terrainEntity, voxelData);
 
-    // First, create a solid floor across the entire maze
-    for (let x = -2; x < maze[0].length * 2 + 2; x++) {
-      for (let z = -2; z < maze.length * 2 + 2; z++) {
-        octree.setVoxel({ x, y: -1, z }, { density: 1.0, material: 2 });
-        octree.setVoxel({ x, y: -2, z }, { density: 1.0, material: 2 });
-      }
-    }
-
-    // Build walls with much higher density and less falloff
-    for (let z = 0; z < maze.length; z++) {
-      for (let x = 0; x < maze[z].length; x++) {
-        if (maze[z][x]) {
-          // Create solid walls with slight organic variation
-          for (let y = 0; y < wallHeight; y++) {
-            for (let dx = -wallThickness; dx <= wallThickness; dx++) {
-              for (let dz = -wallThickness; dz <= wallThickness; dz++) {
-                // Distance from center of wall
-                const dist = Math.sqrt(dx * dx + dz * dz);
-                // Very subtle noise for slight organic feel
-                const noise =
-                  Math.sin(x * 0.3 + dx * 0.5) *
-                  Math.cos(z * 0.3 + dz * 0.5) *
-                  0.15;
-                // Much higher base density with gentle falloff
-                const density = Math.max(
-                  0.3,
-                  1.0 - dist / (wallThickness + 3) + noise
-                );
-
-                // Set voxel with high density for solid appearance
-                octree.setVoxel(
-                  { x: x * 2 + dx, y, z: z * 2 + dz },
-                  { density: Math.min(1.0, density), material: 1 }
-                );
-              }
-            }
-          }
-        }
-      }
-    }
+    // Floor slab and thick walls for marching cubes
+    mazeGen.toVoxels(octree);
 
     // Add decorative pillars and spheres to showcase marching cubes
     for (let z = 2; z < maze.length - 2; z++) {
@@ -107,16 +84,16 @@ export class MazeScene {
             (maze[z][x + 1] ? 1 : 0);
 
           // Dead end (3 walls) - add sphere to show marching cubes smoothing
-          if (wallCount === 3 && Math.random() < 0.4) {
+          if (wallCount === 3 && random() < 0.4) {
             this.generateSphere(
               octree,
               { x: x * 2, y: 1.5, z: z * 2 },
               1.5,
-              Math.floor(Math.random() * 3) + 3
+              Math.floor(random() * 3) + 3
             );
           }
           // Intersections (2 walls) - occasional pillar
-          else if (wallCount === 2 && Math.random() < 0.1) {
+          else if (wallCount === 2 && random() < 0.1) {
             this.generateSphere(octree, { x: x * 2, y: 1, z: z * 2 }, 1.2, 4);
           }
         }
@@ -129,26 +106,18 @@ export class MazeScene {
 
   /**
    * Helper: Generate a sphere in an octree
+   * Density falls off linearly from 1 at the center to 0 at radius.
    */
   private generateSphere(
-    octree: any,
-    center: { x: number; y: number; z: number },
+    octree: VoxelStorage,
+    center: Vec3,
     radius: number,
     material: number
   ): void {
-    for (let x = center.x - radius; x <= center.x + radius; x++) {
-      for (let y = center.y - radius; y <= center.y + radius; y++) {
-        for (let z = center.z - radius; z <= center.z + radius; z++) {
-          const distance = Math.sqrt(
-            (x - center.x) ** 2 + (y - center.y) ** 2 + (z - center.z) ** 2
-          );
-          if (distance <= radius) {
-            const density = Math.max(0, 1 - distance / radius);
-            octree.setVoxel({ x, y, z }, { density, material });
-          }
-        }
-      }
-    }
+    this.editor.add(octree, sphereBrush(center, radius / 2), {
+      material,
+      falloff: radius,
+    });
   }
 
   /**
@@ -196,6 +165,9 @@ export class MazeScene {
   ): void {
     // Create octree at configured resolution
     const octree = new Octree(PLAYER_MESH.OCTREE_SIZE, PLAYER_MESH.MAX_LEVEL);
+    const material = (
+      world.getResource(MaterialRegistry) ?? MaterialRegistry.createDefault()
+    ).getId(PLAYER_MESH.MATERIAL);
 
     // Generate smooth sphere in local octree space
     for (let x = 0; x < PLAYER_MESH.OCTREE_SIZE; x++) {
@@ -213,10 +185,7 @@ export class MazeScene {
             const density = Math.max(0, 1.0 - Math.pow(normalizedDist, 1.5));
 
             if (density > 0.05) {
-              octree.setVoxel(
-                { x, y, z },
-                { density, material: PLAYER_MESH.MATERIAL }
-              );
+              octree.setVoxel({ x, y, z }, { density, material });
             }
           }
         }
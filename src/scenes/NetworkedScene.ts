@@ -9,7 +9,8 @@ import {
   Player,
   CameraTarget,
 } from "@/components";
-import { Octree } from "@/voxel";
+import { Octree, chunkKey } from "@/voxel";
+import { ChunkManager } from "@/systems";
 import { MeshAlgorithm } from "@/components/VoxelData";
 import { vec3 } from "gl-matrix";
 import { NetworkAuthority } from "@/network";
@@ -41,49 +42,48 @@ export class NetworkedScene {
   }
 
   /**
-   * Create terrain (replicated to all clients)
+   * Create terrain (generated identically on every peer, not replicated)
+   * Ground covers [-32, 32) on X and Z, centred on the origin where blocks
+   * and players spawn.
    */
   private createTerrain(): void {
-    const terrainEntity = this.world.createEntity();
-
-    // Create flat terrain
-    const terrainOctree = new Octree(6);
     const halfSize = 32;
 
-    for (let x = -halfSize; x < halfSize; x++) {
-      for (let z = -halfSize; z < halfSize; z++) {
-        for (let y = 0; y < 2; y++) {
-          terrainOctree.setVoxel({ x, y, z }, { density: 1.0, material: 2 });
+    const chunkManager = new ChunkManager({
+      chunkSize: 32,
+      loadRadius: 1, // 3x3 chunks: [-32, 64) on X and Z
+      unloadRadius: 1,
+      algorithm: MeshAlgorithm.GREEDY, // Flat ground merges into a few quads
+      staticColliders: true,
+      collider: { friction: 0.8 },
+      // Marked as networked (static terrain)
+      components: (coord) => [
+        new NetworkEntity({
+          networkId: `terrain:${chunkKey(coord)}`,
+          authority: NetworkAuthority.SERVER,
+          replicateTransform: false, // Static, doesn't move
+          replicateVelocity: false,
+          updateRate: 0, // Never needs updates
+        }),
+      ],
+      generator: (storage, origin, chunkSize) => {
+        // The +X/+Z chunks stay empty so the ground is symmetric
+        if (origin.x >= halfSize || origin.z >= halfSize) return;
+
+        // Flat ground, 2 voxels thick
+        for (let x = 0; x < chunkSize; x++) {
+          for (let z = 0; z < chunkSize; z++) {
+            for (let y = 0; y < 2; y++) {
+              storage.setVoxel({ x, y, z }, { density: 1.0, material: 2 });
+            }
+          }
         }
-      }
-    }
-
-    this.world.addComponent(
-      terrainEntity,
-      new VoxelData(terrainOctree, true, MeshAlgorithm.CUBIC)
-    );
-
-    this.world.addComponent(
-      terrainEntity,
-      new Transform(vec3.fromValues(0, 0, 0))
-    );
-
-    this.world.addComponent(
-      terrainEntity,
-      new RigidBody({ mass: 0, friction: 0.8, isStatic: true })
-    );
+      },
+    });
 
-    // Mark as networked (static terrain)
-    this.world.addComponent(
-      terrainEntity,
-      new NetworkEntity({
-        networkId: "terrain",
-        authority: NetworkAuthority.SERVER,
-        replicateTransform: false, // Static, doesn't move
-        replicateVelocity: false,
-        updateRate: 0, // Never needs updates
-      })
-    );
+    // Fixed around the origin so a headless server has terrain too
+    chunkManager.setFocus({ x: 0, y: 0, z: 0 });
+    this.world.addSystem(chunkManager);
 
     console.log("Terrain created");
   }
@@ -0,0 +1,316 @@
+import { System, Entity, Component } from "@/ecs";
+import {
+  Transform,
+  Player,
+  CameraTarget,
+  VoxelData,
+  MeshAlgorithm,
+  RigidBody,
+  RigidBodyConfig,
+  Chunk,
+} from "@/components";
+import {
+  DenseVoxelStorage,
+  VoxelStorage,
+  Vec3,
+  Voxel,
+  worldToChunk,
+  worldToLocal,
+  chunkToWorld,
+  chunkKey,
+} from "@/voxel";
+import { vec3 } from "gl-matrix";
+import { CHUNKS } from "@/constants";
+
+/**
+ * Fills a newly created chunk
+ * @param storage - Chunk storage in local coordinates [0, chunkSize)
+ * @param origin - World position of the chunk's minimum corner
+ */
+export type ChunkGenerator = (
+  storage: VoxelStorage,
+  origin: Vec3,
+  chunkSize: number
+) => void;
+
+export interface ChunkManagerConfig {
+  chunkSize?: number; // Voxels per chunk edge (power of two)
+  loadRadius?: number; // In chunks, measured on XZ
+  unloadRadius?: number; // In chunks, must be >= loadRadius
+  minChunkY?: number; // Vertical chunk range streamed around the focus
+  maxChunkY?: number;
+  maxLoadsPerFrame?: number;
+  algorithm?: MeshAlgorithm;
+  staticColliders?: boolean; // Static RigidBody sized to the chunk's voxels at load
+  collider?: RigidBodyConfig; // Friction etc. for those colliders (always static)
+  components?: (coord: Vec3) => Component[]; // Extra components per chunk entity
+  generator?: ChunkGenerator;
+  createStorage?: (chunkSize: number) => VoxelStorage; // Default: DenseVoxelStorage
+}
+
+interface LoadedChunk {
+  coord: Vec3;
+  entity: Entity;
+  voxelData: VoxelData;
+}
+
+/**
+ * ChunkManager - streams fixed-size terrain chunk entities around a focus
+ *
+ * The focus is the first CameraTarget (or Player) entity, unless set with
+ * setFocus(). Each chunk is an entity with Chunk, Transform and VoxelData.
+ * Chunks mesh against the voxels of their loaded neighbours, so surfaces
+ * continue across chunk boundaries; loading, unloading or editing a chunk
+ * remeshes the neighbours that touch it. Edits go through setVoxel() in
+ * world coordinates; edited chunks keep their data when unloaded and are
+ * restored when they stream back in.
+ */
+export class ChunkManager extends System {
+  private chunkSize: number;
+  private loadRadius: number;
+  private unloadRadius: number;
+  private minChunkY: number;
+  private maxChunkY: number;
+  private maxLoadsPerFrame: number;
+  private algorithm: MeshAlgorithm;
+  private staticColliders: boolean;
+  private collider: RigidBodyConfig;
+  private components?: (coord: Vec3) => Component[];
+  private generator?: ChunkGenerator;
+  private createStorage: (chunkSize: number) => VoxelStorage;
+
+  private loaded = new Map<string, LoadedChunk>();
+  private edited = new Set<string>();
+  private savedChunks = new Map<string, VoxelStorage>();
+  private focus: Vec3 | null = null;
+
+  constructor(config: ChunkManagerConfig = {}) {
+    super();
+    this.chunkSize = config.chunkSize ?? CHUNKS.SIZE;
+    this.loadRadius = config.loadRadius ?? CHUNKS.LOAD_RADIUS;
+    this.unloadRadius = Math.max(
+      config.unloadRadius ?? CHUNKS.UNLOAD_RADIUS,
+      this.loadRadius
+    );
+    this.minChunkY = config.minChunkY ?? 0;
+    this.maxChunkY = config.maxChunkY ?? 0;
+    this.maxLoadsPerFrame =
+      config.maxLoadsPerFrame ?? CHUNKS.MAX_LOADS_PER_FRAME;
+    this.algorithm = config.algorithm ?? MeshAlgorithm.CUBIC;
+    this.staticColliders = config.staticColliders ?? false;
+    this.collider = config.collider ?? {};
+    this.components = config.components;
+    this.generator = config.generator;
+    this.createStorage =
+      config.createStorage ?? ((size) => new DenseVoxelStorage(size));
+  }
+
+  update(_deltaTime: number): void {
+    const focus = this.focus ?? this.findFocus();
+    if (!focus) return;
+
+    const center = worldToChunk(focus, this.chunkSize);
+
+    // Unload chunks that drifted out of range
+    for (const [key, chunk] of this.loaded) {
+      if (this.distance(chunk.coord, center) > this.unloadRadius) {
+        this.unloadChunk(key, chunk);
+      }
+    }
+
+    // Load missing chunks, nearest first
+    const missing: Vec3[] = [];
+    for (
+      let x = center.x - this.loadRadius;
+      x <= center.x + this.loadRadius;
+      x++
+    ) {
+      for (
+        let z = center.z - this.loadRadius;
+        z <= center.z + this.loadRadius;
+        z++
+      ) {
+        for (let y = this.minChunkY; y <= this.maxChunkY; y++) {
+          const coord = { x, y, z };
+          if (!this.loaded.has(chunkKey(coord))) missing.push(coord);
+        }
+      }
+    }
+    missing.sort((a, b) => this.distance(a, center) - this.distance(b, center));
+
+    for (const coord of missing.slice(0, this.maxLoadsPerFrame)) {
+      this.loadChunk(coord);
+    }
+  }
+
+  /**
+   * Stream around a fixed point instead of the CameraTarget/Player entity
+   * Pass null to follow the entity again.
+   */
+  setFocus(position: Vec3 | null): void {
+    this.focus = position;
+  }
+
+  getChunkSize(): number {
+    return this.chunkSize;
+  }
+
+  /**
+   * Chunk entity at a chunk coordinate, if loaded
+   */
+  getChunkEntity(coord: Vec3): Entity | undefined {
+    return this.loaded.get(chunkKey(coord))?.entity;
+  }
+
+  getLoadedChunkCount(): number {
+    return this.loaded.size;
+  }
+
+  /**
+   * Read a voxel in world coordinates (null if its chunk isn't available)
+   */
+  getVoxel(position: Vec3): Voxel | null {
+    const storage = this.getChunkStorage(
+      worldToChunk(position, this.chunkSize)
+    );
+    return storage?.getVoxel(worldToLocal(position, this.chunkSize)) ?? null;
+  }
+
+  getDensity(position: Vec3): number {
+    return this.getVoxel(position)?.density ?? 0;
+  }
+
+  /**
+   * Write a voxel in world coordinates
+   * Unloaded chunks are generated in memory and kept until they load.
+   * Neighbours sharing the edited boundary are marked for remesh.
+   */
+  setVoxel(position: Vec3, voxel: Voxel): void {
+    const coord = worldToChunk(position, this.chunkSize);
+    const local = worldToLocal(position, this.chunkSize);
+    const key = chunkKey(coord);
+
+    let storage = this.getChunkStorage(coord);
+    if (!storage) {
+      storage = this.generateChunk(coord);
+      this.savedChunks.set(key, storage);
+    }
+
+    storage.setVoxel(local, voxel);
+    this.edited.add(key);
+    this.markDirty(coord);
+
+    // Offsets towards every neighbour that shares the touched face/edge/corner
+    const offsets = (v: number) =>
+      v === 0 ? [-1, 0] : v === this.chunkSize - 1 ? [0, 1] : [0];
+    for (const dx of offsets(local.x)) {
+      for (const dy of offsets(local.y)) {
+        for (const dz of offsets(local.z)) {
+          if (dx !== 0 || dy !== 0 || dz !== 0) {
+            this.markDirty({
+              x: coord.x + dx,
+              y: coord.y + dy,
+              z: coord.z + dz,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Mark a loaded chunk for remesh
+   */
+  markDirty(coord: Vec3): void {
+    this.loaded.get(chunkKey(coord))?.voxelData.markDirty();
+  }
+
+  private findFocus(): Vec3 | null {
+    const targets = this.world.query(Transform, CameraTarget);
+    const entity = targets[0] ?? this.world.query(Transform, Player)[0];
+    if (!entity) return null;
+
+    const position = this.world.getComponent(entity, Transform)!.position;
+    return { x: position[0], y: position[1], z: position[2] };
+  }
+
+  /**
+   * Chebyshev distance on XZ, in chunks
+   */
+  private distance(a: Vec3, b: Vec3): number {
+    return Math.max(Math.abs(a.x - b.x), Math.abs(a.z - b.z));
+  }
+
+  private getChunkStorage(coord: Vec3): VoxelStorage | undefined {
+    const key = chunkKey(coord);
+    return this.loaded.get(key)?.voxelData.storage ?? this.savedChunks.get(key);
+  }
+
+  private generateChunk(coord: Vec3): VoxelStorage {
+    const storage = this.createStorage(this.chunkSize);
+    this.generator?.(
+      storage,
+      chunkToWorld(coord, this.chunkSize),
+      this.chunkSize
+    );
+    return storage;
+  }
+
+  private loadChunk(coord: Vec3): void {
+    const key = chunkKey(coord);
+    const storage = this.savedChunks.get(key) ?? this.generateChunk(coord);
+    this.savedChunks.delete(key);
+
+    const origin = chunkToWorld(coord, this.chunkSize);
+    const voxelData = new VoxelData(storage, true, this.algorithm);
+    voxelData.neighbours = (dx, dy, dz) =>
+      this.loaded.get(
+        chunkKey({ x: coord.x + dx, y: coord.y + dy, z: coord.z + dz })
+      )?.voxelData.storage;
+
+    const entity = this.commands.createEntity(
+      new Chunk(coord),
+      new Transform(vec3.fromValues(origin.x, origin.y, origin.z)),
+      voxelData,
+      ...(this.components?.(coord) ?? [])
+    );
+    if (this.staticColliders && storage.getBounds()) {
+      this.commands.addComponent(
+        entity,
+        new RigidBody({ ...this.collider, isStatic: true })
+      );
+    }
+
+    this.loaded.set(key, { coord, entity, voxelData });
+    this.markNeighboursDirty(coord);
+  }
+
+  private unloadChunk(key: string, chunk: LoadedChunk): void {
+    // Generated chunks can be regenerated; only edited ones are kept
+    if (this.edited.has(key)) {
+      this.savedChunks.set(key, chunk.voxelData.storage);
+    }
+    this.commands.destroyEntity(chunk.entity);
+    this.loaded.delete(key);
+    this.markNeighboursDirty(chunk.coord);
+  }
+
+  /**
+   * Remesh the 26 chunks around one whose border voxels changed
+   */
+  private markNeighboursDirty(coord: Vec3): void {
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          if (dx !== 0 || dy !== 0 || dz !== 0) {
+            this.markDirty({
+              x: coord.x + dx,
+              y: coord.y + dy,
+              z: coord.z + dz,
+            });
+          }
+        }
+      }
+    }
+  }
+}
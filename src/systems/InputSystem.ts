@@ -1,21 +1,28 @@
-import { System } from "@/ecs";
+import { System, World } from "@/ecs";
 import { Transform, Velocity, Player } from "@/components";
+import { InputState } from "@/resources";
 import { vec3 } from "gl-matrix";
 
 /**
  * Input system for player control
+ * Writes the look direction to the InputState resource
  */
 export class InputSystem extends System {
   private keys = new Set<string>();
   private mouseDelta = { x: 0, y: 0 };
-  private yaw = 0;
-  private pitch = 0;
+  private input!: InputState;
 
   constructor() {
     super();
     this.setupListeners();
   }
 
+  onAddedToWorld(world: World): void {
+    super.onAddedToWorld(world);
+    this.input =
+      world.getResource(InputState) ?? world.insertResource(new InputState());
+  }
+
   private setupListeners(): void {
     window.addEventListener("keydown", (e) => {
       const key = e.key.toLowerCase();
@@ -46,24 +53,33 @@ export class InputSystem extends System {
       const transform = this.world.getComponent(entity, Transform)!;
       const velocity = this.world.getComponent(entity, Velocity)!;
       const player = this.world.getComponent(entity, Player)!;
+      const previousVelocity = vec3.clone(velocity.linear);
 
       // Handle mouse look
       if (this.mouseDelta.x !== 0 || this.mouseDelta.y !== 0) {
-        this.yaw -= this.mouseDelta.x * player.lookSpeed;
-        this.pitch -= this.mouseDelta.y * player.lookSpeed;
-        this.pitch = Math.max(-Math.PI / 2, Math.min(Math.PI / 2, this.pitch));
+        const input = this.input;
+        input.yaw -= this.mouseDelta.x * player.lookSpeed;
+        input.pitch -= this.mouseDelta.y * player.lookSpeed;
+        input.pitch = Math.max(
+          -Math.PI / 2,
+          Math.min(Math.PI / 2, input.pitch)
+        );
         this.mouseDelta.x = 0;
         this.mouseDelta.y = 0;
       }
 
       // Calculate forward and right vectors
       const forward = vec3.fromValues(
-        Math.sin(this.yaw),
+        Math.sin(this.input.yaw),
         0,
-        Math.cos(this.yaw)
+        Math.cos(this.input.yaw)
       );
 
-      const right = vec3.fromValues(-Math.cos(this.yaw), 0, Math.sin(this.yaw));
+      const right = vec3.fromValues(
+        -Math.cos(this.input.yaw),
+        0,
+        Math.sin(this.input.yaw)
+      );
 
       // Handle movement
       const moveDir = vec3.create();
@@ -97,14 +113,10 @@ export class InputSystem extends System {
       if (this.keys.has(" ") && Math.abs(velocity.linear[1]) < 0.1) {
         velocity.linear[1] = 8;
       }
-    }
-  }
-
-  getYaw(): number {
-    return this.yaw;
-  }
 
-  getPitch(): number {
-    return this.pitch;
+      if (!vec3.exactEquals(velocity.linear, previousVelocity)) {
+        this.world.markChanged(entity, Velocity);
+      }
+    }
   }
 }
@@ -1,20 +1,46 @@
-import { System } from "@/ecs";
+import { System, World } from "@/ecs";
 import { VoxelData, VoxelMesh, MeshAlgorithm } from "@/components";
-import { CubicVoxelMesher, MarchingCubes, VoxelGrid } from "@/voxel";
+import {
+  CubicVoxelMesher,
+  DualContouring,
+  MarchingCubes,
+  MaterialRegistry,
+  SurfaceNets,
+  BorderedVoxelStorage,
+  createVoxelGrid,
+} from "@/voxel";
 
 /**
  * System that generates meshes from VoxelData
- * Supports both cubic (Minecraft-style) and marching cubes (smooth) rendering
+ * Supports cubic (Minecraft-style), greedy cubic and smooth (marching cubes,
+ * surface nets, dual contouring) rendering
  * Runs on entities with VoxelData component, creates/updates VoxelMesh component
+ * Colours come from the world's MaterialRegistry resource if there is one
  */
 export class MeshGenerationSystem extends System {
   private marchingCubes: MarchingCubes;
   private cubicMesher: CubicVoxelMesher;
+  private surfaceNets: SurfaceNets;
+  private dualContouring: DualContouring;
 
   constructor(isoLevel = 0.5) {
     super();
     this.marchingCubes = new MarchingCubes(isoLevel);
     this.cubicMesher = new CubicVoxelMesher(isoLevel);
+    this.surfaceNets = new SurfaceNets(isoLevel);
+    this.dualContouring = new DualContouring(isoLevel);
+  }
+
+  onAddedToWorld(world: World): void {
+    super.onAddedToWorld(world);
+
+    const materials = world.getResource(MaterialRegistry);
+    if (materials) {
+      this.marchingCubes.setMaterials(materials);
+      this.cubicMesher.setMaterials(materials);
+      this.surfaceNets.setMaterials(materials);
+      this.dualContouring.setMaterials(materials);
+    }
   }
 
   update(_deltaTime: number): void {
@@ -28,21 +54,23 @@ export class MeshGenerationSystem extends System {
       if (voxelData.needsRemesh) {
         let mesh;
 
+        // Chunks also see one voxel into their neighbours
+        const storage = voxelData.neighbours
+          ? new BorderedVoxelStorage(voxelData.storage, voxelData.neighbours)
+          : voxelData.storage;
+
         if (voxelData.algorithm === MeshAlgorithm.CUBIC) {
-          // Cubic mesher uses Octree directly
-          mesh = this.cubicMesher.generateMesh(voxelData.octree);
+          // Cubic mesher reads the storage directly
+          mesh = this.cubicMesher.generateMesh(storage);
+        } else if (voxelData.algorithm === MeshAlgorithm.GREEDY) {
+          mesh = this.cubicMesher.generateGreedyMesh(storage);
+        } else if (voxelData.algorithm === MeshAlgorithm.SURFACE_NETS) {
+          mesh = this.surfaceNets.generateMesh(createVoxelGrid(storage));
+        } else if (voxelData.algorithm === MeshAlgorithm.DUAL_CONTOURING) {
+          mesh = this.dualContouring.generateMesh(createVoxelGrid(storage));
         } else {
           // Marching cubes uses VoxelGrid adapter
-          const octreeGrid: VoxelGrid = {
-            getSizeX: () => voxelData.octree.getWorldSize(),
-            getSizeY: () => voxelData.octree.getWorldSize(),
-            getSizeZ: () => voxelData.octree.getWorldSize(),
-            getDensity: (x: number, y: number, z: number) =>
-              voxelData.octree.getDensity({ x, y, z }),
-            getMaterial: (x: number, y: number, z: number) =>
-              voxelData.octree.getMaterial({ x, y, z }),
-          };
-          mesh = this.marchingCubes.generateMesh(octreeGrid);
+          mesh = this.marchingCubes.generateMesh(createVoxelGrid(storage));
         }
 
         // Update or create VoxelMesh component
@@ -51,7 +79,7 @@ export class MeshGenerationSystem extends System {
           voxelMesh.mesh = mesh;
         } else {
           voxelMesh = new VoxelMesh(mesh);
-          this.world.addComponent(entity, voxelMesh);
+          this.commands.addComponent(entity, voxelMesh);
         }
 
         // Mark as clean
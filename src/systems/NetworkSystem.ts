@@ -1,4 +1,4 @@
-import { System, Entity } from "@/ecs";
+import { System, Entity, World } from "@/ecs";
 import { Transform, Velocity, RigidBody } from "@/components";
 import { NetworkEntity } from "@/components/NetworkEntity";
 import { INetworkManager } from "@/network/NetworkManager";
@@ -35,6 +35,11 @@ export class NetworkSystem extends System {
     this.networkManager.onDisconnect(this.handleClientDisconnect.bind(this));
   }
 
+  onAddedToWorld(world: World): void {
+    super.onAddedToWorld(world);
+    world.onEntityDestroyed(this.handleLocalEntityDestroyed.bind(this));
+  }
+
   update(deltaTime: number): void {
     this.tick++;
 
@@ -172,6 +177,7 @@ export class NetworkSystem extends System {
           data.rotation[2]
         );
         vec3.set(transform.scale, data.scale[0], data.scale[1], data.scale[2]);
+        this.world.markChanged(entity, Transform);
       }
     }
 
@@ -186,6 +192,7 @@ export class NetworkSystem extends System {
           data.linear[1],
           data.linear[2]
         );
+        this.world.markChanged(entity, Velocity);
       }
     }
 
@@ -198,6 +205,7 @@ export class NetworkSystem extends System {
         rigidBody.friction = data.friction;
         rigidBody.restitution = data.restitution;
         rigidBody.isStatic = data.isStatic;
+        this.world.markChanged(entity, RigidBody);
       }
     }
   }
@@ -254,6 +262,26 @@ export class NetworkSystem extends System {
     }
   }
 
+  /**
+   * Handle a networked entity being destroyed in the local world
+   * Server replicates the destruction to all clients
+   */
+  private handleLocalEntityDestroyed(entity: Entity): void {
+    const netEntity = this.world.getComponent(entity, NetworkEntity);
+    if (!netEntity) return;
+
+    this.networkIdToEntity.delete(netEntity.networkId);
+
+    if (this.networkManager.isServer()) {
+      const message: EntityDestroyMessage = {
+        type: MessageType.ENTITY_DESTROY,
+        timestamp: Date.now(),
+        networkId: netEntity.networkId,
+      };
+      this.networkManager.broadcast(message);
+    }
+  }
+
   /**
    * Handle full world snapshot
    */
@@ -1,4 +1,4 @@
-import { System, Entity } from "@/ecs";
+import { System, Entity, World, Query } from "@/ecs";
 import {
   Transform,
   Velocity,
@@ -6,19 +6,69 @@ import {
   PhysicsBody,
   VoxelData,
 } from "@/components";
-import { IPhysicsAdapter, CollisionShape } from "@/physics";
+import { IPhysicsAdapter, CollisionShape, PhysicsBodyHandle } from "@/physics";
+import { getSolidBounds, getDominantMaterial, MaterialRegistry } from "@/voxel";
+import { PhysicsWorld } from "@/resources";
+import { CollisionStarted, CollisionEnded } from "@/events";
 import { vec3 } from "gl-matrix";
+import { MESH_GEN } from "@/constants";
 
 /**
  * Advanced physics system using physics adapter
  * Supports collision detection, angular motion, and realistic physics
+ * Requires a PhysicsWorld resource in the world it is added to
+ * Voxel bodies take unset friction/restitution from the MaterialRegistry
+ * resource (built-in materials if absent)
+ * Emits CollisionStarted/CollisionEnded events with both entities
  */
 export class PhysicsSystem extends System {
-  private physicsAdapter: IPhysicsAdapter;
-
-  constructor(physicsAdapter: IPhysicsAdapter) {
-    super();
-    this.physicsAdapter = physicsAdapter;
+  private physicsAdapter!: IPhysicsAdapter;
+  private materials!: MaterialRegistry;
+  private handleToEntity = new Map<PhysicsBodyHandle, Entity>();
+  private pendingBodies!: Query<
+    [Transform, RigidBody, Velocity | undefined, VoxelData | undefined]
+  >;
+  private controlledBodies!: Query<[PhysicsBody, Velocity]>;
+  private simulatedBodies!: Query<
+    [PhysicsBody, Transform, Velocity | undefined, RigidBody | undefined]
+  >;
+
+  onAddedToWorld(world: World): void {
+    super.onAddedToWorld(world);
+
+    const physicsWorld = world.getResource(PhysicsWorld);
+    if (!physicsWorld) {
+      throw new Error("PhysicsSystem requires a PhysicsWorld resource");
+    }
+    this.physicsAdapter = physicsWorld.adapter;
+    this.materials =
+      world.getResource(MaterialRegistry) ?? MaterialRegistry.createDefault();
+
+    world.onAdd(PhysicsBody, (entity, physicsBody) => {
+      this.handleToEntity.set(physicsBody.handle, entity);
+    });
+
+    // Free the physics body when PhysicsBody is removed or its entity destroyed
+    world.onRemove(PhysicsBody, (_entity, physicsBody) => {
+      this.handleToEntity.delete(physicsBody.handle);
+      this.physicsAdapter.removeRigidBody(physicsBody.handle);
+    });
+
+    this.pendingBodies = world
+      .queryBuilder()
+      .with(Transform, RigidBody)
+      .optional(Velocity, VoxelData)
+      .without(PhysicsBody)
+      .build();
+    this.controlledBodies = world
+      .queryBuilder()
+      .with(PhysicsBody, Velocity)
+      .build();
+    this.simulatedBodies = world
+      .queryBuilder()
+      .with(PhysicsBody, Transform)
+      .optional(Velocity, RigidBody)
+      .build();
   }
 
   update(deltaTime: number): void {
@@ -42,62 +92,37 @@ export class PhysicsSystem extends System {
    * Create physics bodies for entities that have Transform + RigidBody but not PhysicsBody yet
    */
   private createPhysicsBodies(): void {
-    const entities = this.world.query(Transform, RigidBody);
-
-    for (const entity of entities) {
-      // Skip if already has physics body
-      if (this.world.getComponent(entity, PhysicsBody)) continue;
-
-      const transform = this.world.getComponent(entity, Transform)!;
-      const rigidBody = this.world.getComponent(entity, RigidBody)!;
-      const velocity = this.world.getComponent(entity, Velocity);
-      const voxelData = this.world.getComponent(entity, VoxelData);
+    for (const [
+      entity,
+      transform,
+      rigidBody,
+      velocity,
+      voxelData,
+    ] of this.pendingBodies.entries()) {
+      const { friction, restitution } = this.getSurface(rigidBody, voxelData);
 
       // Calculate collision box size
       let halfExtents: vec3;
 
       if (voxelData) {
-        // Calculate bounding box from voxel data
-        const octree = voxelData.octree;
-        const worldSize = octree.getWorldSize();
-
-        // Find actual voxel bounds
-        let minX = worldSize,
-          minY = worldSize,
-          minZ = worldSize;
-        let maxX = 0,
-          maxY = 0,
-          maxZ = 0;
-        let hasVoxels = false;
-
-        for (let x = 0; x < worldSize; x++) {
-          for (let y = 0; y < worldSize; y++) {
-            for (let z = 0; z < worldSize; z++) {
-              if (octree.getDensity({ x, y, z }) > 0.5) {
-                hasVoxels = true;
-                minX = Math.min(minX, x);
-                minY = Math.min(minY, y);
-                minZ = Math.min(minZ, z);
-                maxX = Math.max(maxX, x + 1);
-                maxY = Math.max(maxY, y + 1);
-                maxZ = Math.max(maxZ, z + 1);
-              }
-            }
-          }
-        }
+        // Bounding box of the rendered voxels, not the faint falloff
+        // around them
+        const bounds = getSolidBounds(voxelData.storage, MESH_GEN.ISO_LEVEL);
+
+        if (bounds) {
+          const { min, max } = bounds;
 
-        if (hasVoxels) {
           // Calculate center offset and half extents
-          const sizeX = maxX - minX;
-          const sizeY = maxY - minY;
-          const sizeZ = maxZ - minZ;
+          const sizeX = max.x - min.x;
+          const sizeY = max.y - min.y;
+          const sizeZ = max.z - min.z;
 
           halfExtents = vec3.fromValues(sizeX / 2, sizeY / 2, sizeZ / 2);
 
           // Calculate collider offset relative to transform origin
-          const centerX = (minX + maxX) / 2;
-          const centerY = (minY + maxY) / 2;
-          const centerZ = (minZ + maxZ) / 2;
+          const centerX = (min.x + max.x) / 2;
+          const centerY = (min.y + max.y) / 2;
+          const centerZ = (min.z + max.z) / 2;
 
           // Create physics body at transform position
           const handle = this.physicsAdapter.createRigidBody({
@@ -105,8 +130,8 @@ export class PhysicsSystem extends System {
             rotation: transform.rotation,
             velocity: velocity?.linear,
             mass: rigidBody.isStatic ? 0 : rigidBody.mass,
-            friction: rigidBody.friction,
-            restitution: rigidBody.restitution,
+            friction,
+            restitution,
             lockRotations: !rigidBody.enableRotation,
             angularDamping: rigidBody.angularDamping,
           });
@@ -117,13 +142,13 @@ export class PhysicsSystem extends System {
             halfExtents,
             offset: vec3.fromValues(centerX, centerY, centerZ),
             mass: rigidBody.mass,
-            friction: rigidBody.friction,
-            restitution: rigidBody.restitution,
+            friction,
+            restitution,
           });
 
-          this.world.addComponent(
+          this.commands.addComponent(
             entity,
-            new PhysicsBody(handle, rigidBody.mass, rigidBody.friction)
+            new PhysicsBody(handle, rigidBody.mass, friction, restitution)
           );
 
           continue;
@@ -143,8 +168,8 @@ export class PhysicsSystem extends System {
         rotation: transform.rotation,
         velocity: velocity?.linear,
         mass: rigidBody.isStatic ? 0 : rigidBody.mass,
-        friction: rigidBody.friction,
-        restitution: rigidBody.restitution,
+        friction,
+        restitution,
         lockRotations: !rigidBody.enableRotation,
         angularDamping: rigidBody.angularDamping,
       });
@@ -153,27 +178,46 @@ export class PhysicsSystem extends System {
         shape: CollisionShape.BOX,
         halfExtents,
         mass: rigidBody.mass,
-        friction: rigidBody.friction,
-        restitution: rigidBody.restitution,
+        friction,
+        restitution,
       });
 
-      this.world.addComponent(
+      // Deferred: pendingBodies is being iterated
+      this.commands.addComponent(
         entity,
-        new PhysicsBody(handle, rigidBody.mass, rigidBody.friction)
+        new PhysicsBody(handle, rigidBody.mass, friction, restitution)
       );
     }
   }
 
+  /**
+   * Friction and restitution for a new body: the RigidBody's own values
+   * where set, otherwise its voxels' most common material
+   */
+  private getSurface(
+    rigidBody: RigidBody,
+    voxelData?: VoxelData
+  ): { friction: number; restitution: number } {
+    const needsMaterial =
+      rigidBody.friction === undefined || rigidBody.restitution === undefined;
+    const materialId =
+      voxelData && needsMaterial
+        ? getDominantMaterial(voxelData.storage)
+        : null;
+    const material =
+      materialId !== null ? this.materials.get(materialId) : undefined;
+
+    return {
+      friction: rigidBody.friction ?? material?.friction ?? 0.5,
+      restitution: rigidBody.restitution ?? material?.restitution ?? 0.3,
+    };
+  }
+
   /**
    * Sync velocities from ECS to physics (for player input control)
    */
   private syncVelocitiesToPhysics(): void {
-    const entities = this.world.query(PhysicsBody, Velocity);
-
-    for (const entity of entities) {
-      const physicsBody = this.world.getComponent(entity, PhysicsBody)!;
-      const velocity = this.world.getComponent(entity, Velocity)!;
-
+    for (const [, physicsBody, velocity] of this.controlledBodies.entries()) {
       // Only sync horizontal velocity (let physics handle gravity/Y)
       const currentVel = this.physicsAdapter.getLinearVelocity(
         physicsBody.handle
@@ -189,64 +233,68 @@ export class PhysicsSystem extends System {
    * Sync physics world state back to ECS components
    */
   private syncPhysicsToECS(): void {
-    const entities = this.world.query(PhysicsBody, Transform);
-
-    for (const entity of entities) {
-      const physicsBody = this.world.getComponent(entity, PhysicsBody)!;
-      const transform = this.world.getComponent(entity, Transform)!;
-      const velocity = this.world.getComponent(entity, Velocity);
-      const rigidBody = this.world.getComponent(entity, RigidBody);
-
+    for (const [
+      entity,
+      physicsBody,
+      transform,
+      velocity,
+      rigidBody,
+    ] of this.simulatedBodies.entries()) {
       // Update position from physics
       const position = this.physicsAdapter.getPosition(physicsBody.handle);
+      let moved = !vec3.exactEquals(transform.position, position);
       vec3.copy(transform.position, position);
 
       // Update rotation from physics if enabled
       if (rigidBody?.enableRotation) {
         const rotation = this.physicsAdapter.getRotation(physicsBody.handle);
+        moved ||= !vec3.exactEquals(transform.rotation, rotation);
         vec3.copy(transform.rotation, rotation);
       }
 
+      // Only bodies that actually moved show up in `changed` views
+      if (moved) {
+        this.world.markChanged(entity, Transform);
+      }
+
       // Update velocity if component exists
       if (velocity) {
         const vel = this.physicsAdapter.getLinearVelocity(physicsBody.handle);
-        vec3.copy(velocity.linear, vel);
+        if (!vec3.exactEquals(velocity.linear, vel)) {
+          vec3.copy(velocity.linear, vel);
+          this.world.markChanged(entity, Velocity);
+        }
       }
     }
   }
 
   /**
-   * Handle collision events
+   * Forward collision events from the physics step as ECS events
    */
   private handleCollisions(): void {
     const collisionEvents = this.physicsAdapter.getCollisionEvents();
+    if (collisionEvents.length === 0) return;
 
-    for (const event of collisionEvents) {
-      // Find entities by physics handle
-      const entity1 = this.findEntityByHandle(event.body1);
-      const entity2 = this.findEntityByHandle(event.body2);
-
-      if (entity1 && entity2) {
-        // Collision detected between entity1 and entity2
-        // Can be extended with collision callbacks/events
-        // console.log(`Collision between ${entity1} and ${entity2}`);
-      }
-    }
-  }
-
-  /**
-   * Find entity by physics body handle
-   */
-  private findEntityByHandle(handle: any): Entity | null {
-    const entities = this.world.query(PhysicsBody);
+    const started = this.world.events(CollisionStarted);
+    const ended = this.world.events(CollisionEnded);
 
-    for (const entity of entities) {
-      const physicsBody = this.world.getComponent(entity, PhysicsBody)!;
-      if (physicsBody.handle === handle) {
-        return entity;
+    for (const event of collisionEvents) {
+      const entityA = this.handleToEntity.get(event.body1);
+      const entityB = this.handleToEntity.get(event.body2);
+      if (!entityA || !entityB) continue;
+
+      if (event.started) {
+        started.send(
+          new CollisionStarted(
+            entityA,
+            entityB,
+            event.contactPoint,
+            event.contactNormal
+          )
+        );
+      } else {
+        ended.send(new CollisionEnded(entityA, entityB));
       }
     }
-
-    return null;
   }
 }
@@ -0,0 +1,118 @@
+import { System, Entity, World, Query } from "@/ecs";
+import { Transform, Parent, Children, GlobalTransform } from "@/components";
+import { mat4 } from "gl-matrix";
+
+/**
+ * TransformPropagationSystem - maintains the entity hierarchy
+ *
+ * - Keeps each parent's Children list in sync with Parent components
+ * - Destroying a parent destroys its children (recursively)
+ * - Computes GlobalTransform = parent GlobalTransform * local Transform,
+ *   walking down from root entities (Transform without Parent)
+ * - An entity whose Parent points at a dead entity is treated as a root
+ */
+export class TransformPropagationSystem extends System {
+  private roots!: Query<[Transform, GlobalTransform | undefined]>;
+  private parented!: Query<[Parent, Transform, GlobalTransform | undefined]>;
+
+  onAddedToWorld(world: World): void {
+    super.onAddedToWorld(world);
+
+    world.onAdd(Parent, (child, parent) => {
+      let children = world.getComponent(parent.entity, Children);
+      if (!children) {
+        if (!world.isAlive(parent.entity)) return;
+        children = new Children();
+        world.addComponent(parent.entity, children);
+      }
+      if (!children.entities.some((e) => e.equals(child))) {
+        children.entities.push(child);
+      }
+    });
+
+    world.onRemove(Parent, (child, parent) => {
+      const children = world.getComponent(parent.entity, Children);
+      if (!children) return;
+      const index = children.entities.findIndex((e) => e.equals(child));
+      if (index !== -1) children.entities.splice(index, 1);
+    });
+
+    // Cascade destroy; copy first since each child unlinks itself
+    world.onEntityDestroyed((entity) => {
+      const children = world.getComponent(entity, Children);
+      if (!children) return;
+      for (const child of [...children.entities]) {
+        world.destroyEntity(child);
+      }
+    });
+
+    this.roots = world
+      .queryBuilder()
+      .with(Transform)
+      .optional(GlobalTransform)
+      .without(Parent)
+      .build();
+    this.parented = world
+      .queryBuilder()
+      .with(Parent, Transform)
+      .optional(GlobalTransform)
+      .build();
+  }
+
+  update(_deltaTime: number): void {
+    for (const [entity, transform, global] of this.roots.entries()) {
+      this.propagateFromRoot(entity, transform, global);
+    }
+
+    // Orphans (parent despawned or never alive) propagate as roots
+    for (const [entity, parent, transform, global] of this.parented.entries()) {
+      if (!this.world.isAlive(parent.entity)) {
+        this.propagateFromRoot(entity, transform, global);
+      }
+    }
+  }
+
+  private propagateFromRoot(
+    entity: Entity,
+    transform: Transform,
+    global: GlobalTransform | undefined
+  ): void {
+    const matrix = transform.getLocalMatrix(global?.matrix);
+    if (!global) {
+      this.commands.addComponent(entity, new GlobalTransform(matrix));
+    }
+    this.propagateToChildren(entity, matrix);
+  }
+
+  /**
+   * Depth-first walk computing children's global matrices
+   */
+  private propagateToChildren(root: Entity, rootMatrix: mat4): void {
+    const stack: [Entity, mat4][] = [[root, rootMatrix]];
+    const local = mat4.create();
+
+    while (stack.length > 0) {
+      const [entity, parentMatrix] = stack.pop()!;
+      const children = this.world.getComponent(entity, Children);
+      if (!children) continue;
+
+      for (const child of children.entities) {
+        const transform = this.world.getComponent(child, Transform);
+        if (!transform) continue;
+
+        let global = this.world.getComponent(child, GlobalTransform);
+        if (!global) {
+          global = new GlobalTransform();
+          this.commands.addComponent(child, global);
+        }
+
+        mat4.multiply(
+          global.matrix,
+          parentMatrix,
+          transform.getLocalMatrix(local)
+        );
+        stack.push([child, global.matrix]);
+      }
+    }
+  }
+}
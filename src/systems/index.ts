@@ -2,3 +2,9 @@ export { PhysicsSystem } from "./PhysicsSystem";
 export { InputSystem } from "./InputSystem";
 export { MeshGenerationSystem } from "./MeshGenerationSystem";
 export { NetworkSystem } from "./NetworkSystem";
+export { TransformPropagationSystem } from "./TransformPropagationSystem";
+export {
+  ChunkManager,
+  type ChunkManagerConfig,
+  type ChunkGenerator,
+} from "./ChunkManager";
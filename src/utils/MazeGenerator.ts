@@ -1,87 +1,527 @@
+import { Vec3, VoxelStorage } from "@/voxel";
+import { createRandom } from "./Noise";
+
 /**
- * Simple recursive backtracking maze generator
+ * Maze carving algorithms
+ * All produce perfect mazes (exactly one path between any two cells).
+ */
+export enum MazeAlgorithm {
+  /**
+   * Depth-first search - long winding corridors, few branches
+   */
+  BACKTRACKER = "backtracker",
+
+  /**
+   * Randomized Prim's - many short dead ends radiating from the start
+   */
+  PRIM = "prim",
+
+  /**
+   * Randomized Kruskal's - merges random passages, evenly branchy
+   */
+  KRUSKAL = "kruskal",
+
+  /**
+   * Wilson's loop-erased random walks - unbiased (uniform spanning tree)
+   */
+  WILSON = "wilson",
+
+  /**
+   * Growing tree - blends backtracker and Prim's via growingTreeBias
+   */
+  GROWING_TREE = "growing_tree",
+}
+
+export interface MazeOptions {
+  seed?: number; // Seeds the default PRNG (default: 0)
+  random?: () => number; // PRNG returning [0, 1); overrides seed
+  algorithm?: MazeAlgorithm; // Default: BACKTRACKER
+  floors?: number; // Stacked levels joined by stairs (default: 1)
+  stairWeight?: number; // Chance of carving a stair relative to a corridor (default: 0.1)
+  growingTreeBias?: number; // GROWING_TREE: 1 = always newest cell, 0 = random cell (default: 0.5)
+}
+
+/**
+ * Stair from a cell on one floor up to the same cell on the next
+ */
+export interface MazeStair {
+  x: number; // Grid coordinates
+  z: number;
+  floor: number; // Lower floor
+}
+
+export interface MazeVoxelOptions {
+  origin?: Vec3; // Voxel position of grid (0, 0) at floor 0 walking level (default: 0, 0, 0)
+  spacing?: number; // Voxels between grid cells (default: 2)
+  wallHeight?: number; // Default: 2
+  wallThickness?: number; // Voxels either side of a wall cell's center (default: 1)
+  floorThickness?: number; // Slab under each floor (default: 2)
+  floorSpacing?: number; // Voxels between floors (default: wallHeight + floorThickness)
+  wallMaterial?: number; // Default: 1
+  floorMaterial?: number; // Default: 2
+  stairMaterial?: number; // Default: wallMaterial
+}
+
+/**
+ * Voxel offsets on the square ring around a stair's center, in climbing
+ * order
+ */
+function stairRing(radius: number): number[][] {
+  const ring: number[][] = [];
+  for (let i = -radius; i < radius; i++) ring.push([i, -radius]);
+  for (let i = -radius; i < radius; i++) ring.push([radius, i]);
+  for (let i = radius; i > -radius; i--) ring.push([i, radius]);
+  for (let i = radius; i > -radius; i--) ring.push([-radius, i]);
+  return ring;
+}
+
+/**
+ * Seeded maze generator
+ *
+ * The grid holds walls (true) and paths (false); cells sit on odd
+ * coordinates with the walls between them on even ones. Generation is
+ * iterative and driven entirely by the injected PRNG, so the same seed,
+ * size and options produce the same maze on every client.
  */
 export class MazeGenerator {
   private width: number;
   private height: number;
-  private maze: boolean[][];
+  private floorCount: number;
+  private floors: boolean[][][] = [];
+  private maze: boolean[][] = [];
+  private stairs: MazeStair[] = [];
+
+  private random: () => number;
+  private algorithm: MazeAlgorithm;
+  private stairWeight: number;
+  private growingTreeBias: number;
+
+  // Cell grid (odd coordinates only)
+  private cellsX: number;
+  private cellsZ: number;
 
-  constructor(width: number, height: number) {
+  constructor(width: number, height: number, options: MazeOptions = {}) {
     this.width = width;
     this.height = height;
-    this.maze = Array(height)
-      .fill(null)
-      .map(() => Array(width).fill(true)); // true = wall
+    this.floorCount = Math.max(1, Math.floor(options.floors ?? 1));
+    this.random = options.random ?? createRandom(options.seed ?? 0);
+    this.algorithm = options.algorithm ?? MazeAlgorithm.BACKTRACKER;
+    // Kept above 0 so random walks can always reach every floor
+    this.stairWeight = Math.max(options.stairWeight ?? 0.1, 1e-3);
+    this.growingTreeBias = options.growingTreeBias ?? 0.5;
+    this.cellsX = Math.max(Math.floor((width - 1) / 2), 0);
+    this.cellsZ = Math.max(Math.floor((height - 1) / 2), 0);
+    this.reset();
   }
 
   /**
-   * Generate a maze using recursive backtracking
+   * Generate a new maze
+   * @returns The ground floor
    */
   generate(): boolean[][] {
-    const startX = 1;
-    const startZ = 1;
-    this.maze[startZ][startX] = false; // Mark as path
+    this.reset();
 
-    this.carve(startX, startZ);
+    if (this.cellsX > 0 && this.cellsZ > 0) {
+      const start = 0;
+      this.open(start);
 
-    // Ensure start and end are clear
-    this.maze[1][1] = false;
-    this.maze[this.height - 2][this.width - 2] = false;
+      switch (this.algorithm) {
+        case MazeAlgorithm.BACKTRACKER:
+          this.growingTree(start, 1);
+          break;
+        case MazeAlgorithm.PRIM:
+          this.prim(start);
+          break;
+        case MazeAlgorithm.KRUSKAL:
+          this.kruskal();
+          break;
+        case MazeAlgorithm.WILSON:
+          this.wilson(start);
+          break;
+        case MazeAlgorithm.GROWING_TREE:
+          this.growingTree(start, this.growingTreeBias);
+          break;
+      }
+    }
+
+    // Ensure start and end are clear. The end is the last cell, which sits
+    // one in from the far walls only when the size is odd.
+    const endX = Math.max(this.cellsX * 2 - 1, 1);
+    const endZ = Math.max(this.cellsZ * 2 - 1, 1);
+    this.floors[0][1][1] = false;
+    this.floors[this.floorCount - 1][endZ][endX] = false;
 
     return this.maze;
   }
 
   /**
-   * Recursive carving algorithm
+   * Get maze data for one floor
    */
-  private carve(x: number, z: number): void {
-    const directions = [
-      [0, -2], // North
-      [2, 0], // East
-      [0, 2], // South
-      [-2, 0], // West
-    ];
+  getMaze(floor = 0): boolean[][] {
+    return this.floors[floor];
+  }
+
+  /**
+   * Get every floor, bottom first
+   */
+  getFloors(): boolean[][][] {
+    return this.floors;
+  }
+
+  getFloorCount(): number {
+    return this.floorCount;
+  }
+
+  getStairs(): MazeStair[] {
+    return this.stairs;
+  }
+
+  /**
+   * Check if position is a wall
+   */
+  isWall(x: number, z: number, floor = 0): boolean {
+    if (
+      x < 0 ||
+      x >= this.width ||
+      z < 0 ||
+      z >= this.height ||
+      floor < 0 ||
+      floor >= this.floorCount
+    ) {
+      return true;
+    }
+    return this.floors[floor][z][x];
+  }
+
+  /**
+   * Write the maze into voxel storage (or a VoxelData's storage): a floor
+   * slab per level, walls with a slightly organic density profile for
+   * marching cubes, and a spiral of steps with a hole above for each stair
+   *
+   * Corridors are 2 * (spacing - wallThickness) - 1 voxels wide. Steps wind
+   * around the stair cell on the widest ring that fits inside it, and at
+   * least one voxel out from the center: when the corridors are a single
+   * voxel wide (the defaults), the stairwell is carved out of the
+   * surrounding walls on both floors, which thins them without opening
+   * them as long as spacing >= 2.
+   */
+  toVoxels(
+    target: VoxelStorage | { storage: VoxelStorage; markDirty(): void },
+    options: MazeVoxelOptions = {}
+  ): void {
+    const storage = "storage" in target ? target.storage : target;
+    const origin = options.origin ?? { x: 0, y: 0, z: 0 };
+    const spacing = options.spacing ?? 2;
+    const wallHeight = options.wallHeight ?? 2;
+    const wallThickness = options.wallThickness ?? 1;
+    const floorThickness = options.floorThickness ?? 2;
+    const floorSpacing = options.floorSpacing ?? wallHeight + floorThickness;
+    const wallMaterial = options.wallMaterial ?? 1;
+    const floorMaterial = options.floorMaterial ?? 2;
+    const stairMaterial = options.stairMaterial ?? wallMaterial;
+
+    const margin = wallThickness + 1;
+
+    for (let floor = 0; floor < this.floorCount; floor++) {
+      const baseY = origin.y + floor * floorSpacing;
+      const grid = this.floors[floor];
+
+      // Solid slab across the whole maze
+      for (let x = -margin; x < this.width * spacing + margin; x++) {
+        for (let z = -margin; z < this.height * spacing + margin; z++) {
+          for (let y = 1; y <= floorThickness; y++) {
+            storage.setVoxel(
+              { x: origin.x + x, y: baseY - y, z: origin.z + z },
+              { density: 1.0, material: floorMaterial }
+            );
+          }
+        }
+      }
+
+      // Walls: dense core with gentle falloff and subtle variation
+      for (let z = 0; z < this.height; z++) {
+        for (let x = 0; x < this.width; x++) {
+          if (!grid[z][x]) continue;
+
+          for (let y = 0; y < wallHeight; y++) {
+            for (let dx = -wallThickness; dx <= wallThickness; dx++) {
+              for (let dz = -wallThickness; dz <= wallThickness; dz++) {
+                const dist = Math.sqrt(dx * dx + dz * dz);
+                const noise =
+                  Math.sin(x * 0.3 + dx * 0.5) *
+                  Math.cos(z * 0.3 + dz * 0.5) *
+                  0.15;
+                const density = Math.max(
+                  0.3,
+                  1.0 - dist / (wallThickness + 3) + noise
+                );
+
+                storage.setVoxel(
+                  {
+                    x: origin.x + x * spacing + dx,
+                    y: baseY + y,
+                    z: origin.z + z * spacing + dz,
+                  },
+                  { density: Math.min(1.0, density), material: wallMaterial }
+                );
+              }
+            }
+          }
+        }
+      }
+    }
+
+    // Widest ring clear of the neighbouring walls, but never the center
+    const stairRadius = Math.max(spacing - wallThickness - 1, 1);
+    const ring = stairRing(stairRadius);
 
-    // Shuffle directions
-    for (let i = directions.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [directions[i], directions[j]] = [directions[j], directions[i]];
+    for (const stair of this.stairs) {
+      const baseY = origin.y + stair.floor * floorSpacing;
+      const centerX = origin.x + stair.x * spacing;
+      const centerZ = origin.z + stair.z * spacing;
+
+      // Clear the stairwell from this floor up through the walls of the
+      // next, opening the slab between them
+      for (let y = 0; y < floorSpacing + wallHeight; y++) {
+        for (let dx = -stairRadius; dx <= stairRadius; dx++) {
+          for (let dz = -stairRadius; dz <= stairRadius; dz++) {
+            storage.setVoxel(
+              { x: centerX + dx, y: baseY + y, z: centerZ + dz },
+              { density: 0, material: 0 }
+            );
+          }
+        }
+      }
+
+      // One step per voxel of rise, winding around the center
+      for (let step = 0; step < floorSpacing; step++) {
+        const [dx, dz] = ring[step % ring.length];
+        for (let y = 0; y <= step; y++) {
+          storage.setVoxel(
+            { x: centerX + dx, y: baseY + y, z: centerZ + dz },
+            { density: 1.0, material: stairMaterial }
+          );
+        }
+      }
     }
 
-    for (const [dx, dz] of directions) {
-      const newX = x + dx;
-      const newZ = z + dz;
-
-      if (
-        newX > 0 &&
-        newX < this.width - 1 &&
-        newZ > 0 &&
-        newZ < this.height - 1 &&
-        this.maze[newZ][newX]
-      ) {
-        // Carve path
-        this.maze[z + dz / 2][x + dx / 2] = false;
-        this.maze[newZ][newX] = false;
-
-        this.carve(newX, newZ);
+    if ("storage" in target) {
+      target.markDirty();
+    }
+  }
+
+  private reset(): void {
+    this.floors = Array.from({ length: this.floorCount }, () =>
+      Array.from({ length: this.height }, () => Array(this.width).fill(true))
+    ); // true = wall
+    this.maze = this.floors[0];
+    this.stairs = [];
+  }
+
+  /**
+   * Depth-first from the newest active cell (bias 1), Prim-like from a
+   * random one (bias 0), or a mix
+   */
+  private growingTree(start: number, bias: number): void {
+    const visited = new Uint8Array(this.getCellCount());
+    const active = [start];
+    visited[start] = 1;
+
+    while (active.length > 0) {
+      const index =
+        this.random() < bias
+          ? active.length - 1
+          : Math.floor(this.random() * active.length);
+      const cell = active[index];
+      const next = this.pickNeighbour(cell, (n) => !visited[n]);
+
+      if (next < 0) {
+        active.splice(index, 1);
+        continue;
       }
+
+      this.connect(cell, next);
+      visited[next] = 1;
+      active.push(next);
     }
   }
 
   /**
-   * Get maze data
+   * Grow from a random frontier cell into a random visited neighbour
    */
-  getMaze(): boolean[][] {
-    return this.maze;
+  private prim(start: number): void {
+    const visited = new Uint8Array(this.getCellCount());
+    const inFrontier = new Uint8Array(this.getCellCount());
+    const frontier: number[] = [];
+
+    const expand = (cell: number) => {
+      visited[cell] = 1;
+      for (const n of this.getNeighbours(cell)) {
+        if (!visited[n] && !inFrontier[n]) {
+          inFrontier[n] = 1;
+          frontier.push(n);
+        }
+      }
+    };
+    expand(start);
+
+    while (frontier.length > 0) {
+      const index = Math.floor(this.random() * frontier.length);
+      const cell = frontier[index];
+      frontier[index] = frontier[frontier.length - 1];
+      frontier.pop();
+
+      this.connect(
+        this.pickNeighbour(cell, (n) => !!visited[n]),
+        cell
+      );
+      expand(cell);
+    }
   }
 
   /**
-   * Check if position is a wall
+   * Join cells across edges in random order unless already connected
    */
-  isWall(x: number, z: number): boolean {
-    if (x < 0 || x >= this.width || z < 0 || z >= this.height) {
-      return true;
+  private kruskal(): void {
+    const count = this.getCellCount();
+    const edges: { a: number; b: number; key: number }[] = [];
+
+    for (let a = 0; a < count; a++) {
+      for (const b of this.getNeighbours(a)) {
+        if (b > a) {
+          // Weighted random order: heavier edges tend to come first
+          const key = Math.pow(this.random(), 1 / this.getWeight(a, b));
+          edges.push({ a, b, key });
+        }
+      }
+    }
+    edges.sort((e1, e2) => e2.key - e1.key);
+
+    const parent = new Int32Array(count);
+    for (let i = 0; i < count; i++) parent[i] = i;
+    const find = (cell: number): number => {
+      while (parent[cell] !== cell) {
+        parent[cell] = parent[parent[cell]];
+        cell = parent[cell];
+      }
+      return cell;
+    };
+
+    for (const { a, b } of edges) {
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA !== rootB) {
+        parent[rootA] = rootB;
+        this.connect(a, b);
+      }
+    }
+  }
+
+  /**
+   * Random walk from each unvisited cell until it hits the maze, then
+   * carve the walk with its loops erased
+   */
+  private wilson(start: number): void {
+    const count = this.getCellCount();
+    const visited = new Uint8Array(count);
+    const next = new Int32Array(count);
+    visited[start] = 1;
+
+    for (let origin = 0; origin < count; origin++) {
+      if (visited[origin]) continue;
+
+      // Revisiting a cell overwrites its exit, erasing the loop
+      let cell = origin;
+      while (!visited[cell]) {
+        next[cell] = this.pickNeighbour(cell, () => true);
+        cell = next[cell];
+      }
+
+      cell = origin;
+      while (!visited[cell]) {
+        visited[cell] = 1;
+        this.connect(cell, next[cell]);
+        cell = next[cell];
+      }
+    }
+  }
+
+  private getCellCount(): number {
+    return this.cellsX * this.cellsZ * this.floorCount;
+  }
+
+  private getNeighbours(cell: number): number[] {
+    const perFloor = this.cellsX * this.cellsZ;
+    const floor = Math.floor(cell / perFloor);
+    const x = (cell % perFloor) % this.cellsX;
+    const z = Math.floor((cell % perFloor) / this.cellsX);
+
+    const neighbours: number[] = [];
+    if (z > 0) neighbours.push(cell - this.cellsX); // North
+    if (x < this.cellsX - 1) neighbours.push(cell + 1); // East
+    if (z < this.cellsZ - 1) neighbours.push(cell + this.cellsX); // South
+    if (x > 0) neighbours.push(cell - 1); // West
+    if (floor < this.floorCount - 1) neighbours.push(cell + perFloor); // Up
+    if (floor > 0) neighbours.push(cell - perFloor); // Down
+    return neighbours;
+  }
+
+  private getWeight(a: number, b: number): number {
+    return Math.abs(a - b) === this.cellsX * this.cellsZ && this.floorCount > 1
+      ? this.stairWeight
+      : 1;
+  }
+
+  /**
+   * Weighted random neighbour passing the filter, or -1
+   */
+  private pickNeighbour(cell: number, filter: (n: number) => boolean): number {
+    const candidates = this.getNeighbours(cell).filter(filter);
+    if (candidates.length === 0) return -1;
+
+    let total = 0;
+    for (const n of candidates) total += this.getWeight(cell, n);
+    if (total === 0) return candidates[0];
+
+    let r = this.random() * total;
+    for (const n of candidates) {
+      r -= this.getWeight(cell, n);
+      if (r < 0) return n;
+    }
+    return candidates[candidates.length - 1];
+  }
+
+  /**
+   * Grid position of a cell: [x, z, floor]
+   */
+  private toGrid(cell: number): [number, number, number] {
+    const perFloor = this.cellsX * this.cellsZ;
+    const rem = cell % perFloor;
+    return [
+      1 + 2 * (rem % this.cellsX),
+      1 + 2 * Math.floor(rem / this.cellsX),
+      Math.floor(cell / perFloor),
+    ];
+  }
+
+  private open(cell: number): void {
+    const [x, z, floor] = this.toGrid(cell);
+    this.floors[floor][z][x] = false;
+  }
+
+  /**
+   * Carve a passage (same floor) or place a stair (adjacent floors)
+   */
+  private connect(a: number, b: number): void {
+    const [ax, az, af] = this.toGrid(a);
+    const [bx, bz, bf] = this.toGrid(b);
+    this.open(a);
+    this.open(b);
+
+    if (af === bf) {
+      this.floors[af][(az + bz) / 2][(ax + bx) / 2] = false;
+    } else {
+      this.stairs.push({ x: ax, z: az, floor: Math.min(af, bf) });
     }
-    return this.maze[z][x];
   }
 }
@@ -0,0 +1,301 @@
+/**
+ * Noise basis functions
+ */
+export enum NoiseType {
+  /**
+   * Interpolated random lattice values - blobby, cheapest
+   */
+  VALUE = "value",
+
+  /**
+   * Gradient noise - smooth, slight grid alignment
+   */
+  PERLIN = "perlin",
+
+  /**
+   * Simplex gradient noise - fewer directional artifacts
+   */
+  SIMPLEX = "simplex",
+}
+
+const GRAD3 = [
+  [1, 1, 0],
+  [-1, 1, 0],
+  [1, -1, 0],
+  [-1, -1, 0],
+  [1, 0, 1],
+  [-1, 0, 1],
+  [1, 0, -1],
+  [-1, 0, -1],
+  [0, 1, 1],
+  [0, -1, 1],
+  [0, 1, -1],
+  [0, -1, -1],
+];
+
+const F3 = 1 / 3;
+const G3 = 1 / 6;
+
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+const lerp = (t: number, a: number, b: number) => a + t * (b - a);
+
+/**
+ * Deterministic PRNG (mulberry32), returns values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Seeded 3D noise
+ * All functions return values in roughly [-1, 1]; the same seed always
+ * produces the same field.
+ */
+export class Noise {
+  private perm = new Uint8Array(512);
+  private values = new Float32Array(256);
+
+  constructor(seed = 0) {
+    const random = createRandom(seed);
+
+    const table = Array.from({ length: 256 }, (_, i) => i);
+    for (let i = 255; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [table[i], table[j]] = [table[j], table[i]];
+    }
+    for (let i = 0; i < 512; i++) {
+      this.perm[i] = table[i & 255];
+    }
+
+    for (let i = 0; i < 256; i++) {
+      this.values[i] = random() * 2 - 1;
+    }
+  }
+
+  sample(type: NoiseType, x: number, y: number, z: number): number {
+    switch (type) {
+      case NoiseType.VALUE:
+        return this.value(x, y, z);
+      case NoiseType.PERLIN:
+        return this.perlin(x, y, z);
+      case NoiseType.SIMPLEX:
+        return this.simplex(x, y, z);
+    }
+  }
+
+  value(x: number, y: number, z: number): number {
+    const xi = Math.floor(x);
+    const yi = Math.floor(y);
+    const zi = Math.floor(z);
+    const u = fade(x - xi);
+    const v = fade(y - yi);
+    const w = fade(z - zi);
+
+    const p = this.perm;
+    const at = (i: number, j: number, k: number) =>
+      this.values[p[p[p[i & 255] + (j & 255)] + (k & 255)]];
+
+    return lerp(
+      w,
+      lerp(
+        v,
+        lerp(u, at(xi, yi, zi), at(xi + 1, yi, zi)),
+        lerp(u, at(xi, yi + 1, zi), at(xi + 1, yi + 1, zi))
+      ),
+      lerp(
+        v,
+        lerp(u, at(xi, yi, zi + 1), at(xi + 1, yi, zi + 1)),
+        lerp(u, at(xi, yi + 1, zi + 1), at(xi + 1, yi + 1, zi + 1))
+      )
+    );
+  }
+
+  /**
+   * Improved Perlin noise
+   */
+  perlin(x: number, y: number, z: number): number {
+    const p = this.perm;
+    const X = Math.floor(x) & 255;
+    const Y = Math.floor(y) & 255;
+    const Z = Math.floor(z) & 255;
+    x -= Math.floor(x);
+    y -= Math.floor(y);
+    z -= Math.floor(z);
+    const u = fade(x);
+    const v = fade(y);
+    const w = fade(z);
+
+    const A = p[X] + Y;
+    const AA = p[A] + Z;
+    const AB = p[A + 1] + Z;
+    const B = p[X + 1] + Y;
+    const BA = p[B] + Z;
+    const BB = p[B + 1] + Z;
+
+    return lerp(
+      w,
+      lerp(
+        v,
+        lerp(u, grad(p[AA], x, y, z), grad(p[BA], x - 1, y, z)),
+        lerp(u, grad(p[AB], x, y - 1, z), grad(p[BB], x - 1, y - 1, z))
+      ),
+      lerp(
+        v,
+        lerp(u, grad(p[AA + 1], x, y, z - 1), grad(p[BA + 1], x - 1, y, z - 1)),
+        lerp(
+          u,
+          grad(p[AB + 1], x, y - 1, z - 1),
+          grad(p[BB + 1], x - 1, y - 1, z - 1)
+        )
+      )
+    );
+  }
+
+  /**
+   * 3D simplex noise
+   */
+  simplex(x: number, y: number, z: number): number {
+    const p = this.perm;
+
+    // Skew to find the simplex cell
+    const s = (x + y + z) * F3;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const k = Math.floor(z + s);
+    const t = (i + j + k) * G3;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+    const z0 = z - (k - t);
+
+    // Which of the six tetrahedra we're in
+    let i1, j1, k1, i2, j2, k2;
+    if (x0 >= y0) {
+      if (y0 >= z0) [i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 1, 0];
+      else if (x0 >= z0) [i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 0, 1];
+      else [i1, j1, k1, i2, j2, k2] = [0, 0, 1, 1, 0, 1];
+    } else {
+      if (y0 < z0) [i1, j1, k1, i2, j2, k2] = [0, 0, 1, 0, 1, 1];
+      else if (x0 < z0) [i1, j1, k1, i2, j2, k2] = [0, 1, 0, 0, 1, 1];
+      else [i1, j1, k1, i2, j2, k2] = [0, 1, 0, 1, 1, 0];
+    }
+
+    const corners = [
+      [x0, y0, z0, 0, 0, 0],
+      [x0 - i1 + G3, y0 - j1 + G3, z0 - k1 + G3, i1, j1, k1],
+      [x0 - i2 + 2 * G3, y0 - j2 + 2 * G3, z0 - k2 + 2 * G3, i2, j2, k2],
+      [x0 - 1 + 3 * G3, y0 - 1 + 3 * G3, z0 - 1 + 3 * G3, 1, 1, 1],
+    ];
+
+    const ii = i & 255;
+    const jj = j & 255;
+    const kk = k & 255;
+
+    let n = 0;
+    for (const [cx, cy, cz, oi, oj, ok] of corners) {
+      let falloff = 0.6 - cx * cx - cy * cy - cz * cz;
+      if (falloff > 0) {
+        const g = GRAD3[p[ii + oi + p[jj + oj + p[kk + ok]]] % 12];
+        falloff *= falloff;
+        n += falloff * falloff * (g[0] * cx + g[1] * cy + g[2] * cz);
+      }
+    }
+
+    return 32 * n;
+  }
+}
+
+function grad(hash: number, x: number, y: number, z: number): number {
+  const h = hash & 15;
+  const u = h < 8 ? x : y;
+  const v = h < 4 ? y : h === 12 || h === 14 ? x : z;
+  return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
+}
+
+export interface NoiseSettings {
+  type?: NoiseType; // Default: SIMPLEX
+  frequency?: number; // Features per voxel (default: 1/32)
+  octaves?: number; // fBm layers (default: 4)
+  lacunarity?: number; // Frequency multiplier per octave (default: 2)
+  gain?: number; // Amplitude multiplier per octave (default: 0.5)
+  ridged?: boolean; // Sharp ridges from 1 - |noise| (default: false)
+  warp?: number; // Domain warp offset in voxels (default: 0 = off)
+  warpFrequency?: number; // Default: frequency
+}
+
+/**
+ * NoiseField - fractal noise built from a Noise basis
+ *
+ * Sums octaves (fBm), optionally ridged, optionally sampled through a
+ * domain warp. Output is normalized to roughly [-1, 1].
+ */
+export class NoiseField {
+  private noise: Noise;
+  private warpNoise: Noise;
+  private type: NoiseType;
+  private frequency: number;
+  private octaves: number;
+  private lacunarity: number;
+  private gain: number;
+  private ridged: boolean;
+  private warp: number;
+  private warpFrequency: number;
+
+  constructor(seed = 0, settings: NoiseSettings = {}) {
+    this.noise = new Noise(seed);
+    this.warpNoise = new Noise(seed ^ 0x5bd1e995);
+    this.type = settings.type ?? NoiseType.SIMPLEX;
+    this.frequency = settings.frequency ?? 1 / 32;
+    this.octaves = Math.max(1, Math.floor(settings.octaves ?? 4));
+    this.lacunarity = settings.lacunarity ?? 2;
+    this.gain = settings.gain ?? 0.5;
+    this.ridged = settings.ridged ?? false;
+    this.warp = settings.warp ?? 0;
+    this.warpFrequency = settings.warpFrequency ?? this.frequency;
+  }
+
+  sample(x: number, y: number, z: number): number {
+    if (this.warp !== 0) {
+      const f = this.warpFrequency;
+      // Offset the three axes with decorrelated samples
+      const dx = this.warpNoise.simplex(x * f, y * f, z * f);
+      const dy = this.warpNoise.simplex(x * f + 31.4, y * f, z * f + 17.9);
+      const dz = this.warpNoise.simplex(x * f - 23.1, y * f + 41.7, z * f);
+      x += dx * this.warp;
+      y += dy * this.warp;
+      z += dz * this.warp;
+    }
+
+    let sum = 0;
+    let amplitude = 1;
+    let totalAmplitude = 0;
+    let frequency = this.frequency;
+
+    for (let octave = 0; octave < this.octaves; octave++) {
+      const n = this.noise.sample(
+        this.type,
+        x * frequency,
+        y * frequency,
+        z * frequency
+      );
+      if (this.ridged) {
+        const ridge = 1 - Math.abs(n);
+        sum += ridge * ridge * amplitude;
+      } else {
+        sum += n * amplitude;
+      }
+      totalAmplitude += amplitude;
+      amplitude *= this.gain;
+      frequency *= this.lacunarity;
+    }
+
+    const normalized = sum / totalAmplitude;
+    return this.ridged ? normalized * 2 - 1 : normalized;
+  }
+}
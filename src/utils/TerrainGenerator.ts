@@ -0,0 +1,230 @@
+import { Vec3, Voxel, VoxelStorage } from "@/voxel";
+import { NoiseField, NoiseSettings, NoiseType } from "./Noise";
+
+/**
+ * One stage of the terrain field
+ *
+ * The field is a signed distance in voxels: positive inside terrain,
+ * negative in air, 0 on the surface. Layers run in order, each receiving
+ * the field from the previous one (-Infinity before the first).
+ */
+export interface TerrainLayer {
+  apply(field: number, x: number, y: number, z: number): number;
+}
+
+export interface HeightmapLayerConfig {
+  seed?: number;
+  noise?: NoiseSettings; // Sampled on the XZ plane
+  baseHeight?: number; // Surface height where noise is 0 (default: 8)
+  amplitude?: number; // Height variation either side of baseHeight (default: 6)
+}
+
+/**
+ * Rolling ground: union with everything below a noise heightmap
+ */
+export class HeightmapLayer implements TerrainLayer {
+  private noise: NoiseField;
+  private baseHeight: number;
+  private amplitude: number;
+
+  // Generation walks columns, so the last height is usually reused
+  private lastX = NaN;
+  private lastZ = NaN;
+  private lastHeight = 0;
+
+  constructor(config: HeightmapLayerConfig = {}) {
+    this.noise = new NoiseField(config.seed, {
+      frequency: 1 / 64,
+      ...config.noise,
+    });
+    this.baseHeight = config.baseHeight ?? 8;
+    this.amplitude = config.amplitude ?? 6;
+  }
+
+  getHeight(x: number, z: number): number {
+    if (x !== this.lastX || z !== this.lastZ) {
+      this.lastX = x;
+      this.lastZ = z;
+      this.lastHeight =
+        this.baseHeight + this.noise.sample(x, 0, z) * this.amplitude;
+    }
+    return this.lastHeight;
+  }
+
+  apply(field: number, x: number, y: number, z: number): number {
+    return Math.max(field, this.getHeight(x, z) - y);
+  }
+}
+
+export interface OverhangLayerConfig {
+  seed?: number;
+  noise?: NoiseSettings;
+  strength?: number; // Max surface displacement in voxels (default: 4)
+}
+
+/**
+ * Perturbs the field with 3D noise, pushing the surface sideways into
+ * overhangs and arches that a heightmap can't express
+ */
+export class OverhangLayer implements TerrainLayer {
+  private noise: NoiseField;
+  private strength: number;
+
+  constructor(config: OverhangLayerConfig = {}) {
+    this.noise = new NoiseField(config.seed, {
+      frequency: 1 / 24,
+      octaves: 3,
+      ...config.noise,
+    });
+    this.strength = config.strength ?? 4;
+  }
+
+  apply(field: number, x: number, y: number, z: number): number {
+    return field + this.noise.sample(x, y, z) * this.strength;
+  }
+}
+
+export interface CaveLayerConfig {
+  seed?: number;
+  noise?: NoiseSettings; // Default: ridged, so caves follow the ridge lines
+  threshold?: number; // Noise value above which space is carved (default: 0.7)
+  scale?: number; // Voxels per unit of noise above threshold (default: 16)
+  minY?: number; // Vertical range caves are carved in
+  maxY?: number;
+}
+
+/**
+ * Carves tunnels where 3D noise exceeds a threshold (difference)
+ */
+export class CaveLayer implements TerrainLayer {
+  private noise: NoiseField;
+  private threshold: number;
+  private scale: number;
+  private minY: number;
+  private maxY: number;
+
+  constructor(config: CaveLayerConfig = {}) {
+    this.noise = new NoiseField(config.seed, {
+      type: NoiseType.PERLIN,
+      frequency: 1 / 20,
+      octaves: 2,
+      ridged: true,
+      ...config.noise,
+    });
+    this.threshold = config.threshold ?? 0.7;
+    this.scale = config.scale ?? 16;
+    this.minY = config.minY ?? -Infinity;
+    this.maxY = config.maxY ?? Infinity;
+  }
+
+  apply(field: number, x: number, y: number, z: number): number {
+    if (y < this.minY || y > this.maxY || field === -Infinity) return field;
+
+    const cave = (this.noise.sample(x, y, z) - this.threshold) * this.scale;
+    return Math.min(field, -cave);
+  }
+}
+
+export interface TerrainMaterials {
+  surface: number; // Top layer (default: 3, grass)
+  soil: number; // Below the surface (default: 2, dirt)
+  rock: number; // Deep (default: 1, stone)
+  soilDepth: number; // Voxels of soil under the surface (default: 4)
+}
+
+export interface TerrainGeneratorConfig {
+  seed?: number; // Seeds the default layers
+  layers?: TerrainLayer[]; // Default: heightmap, overhangs, caves
+  falloff?: number; // Voxels over which density ramps across the surface (default: 2)
+  materials?: Partial<TerrainMaterials>;
+}
+
+/**
+ * TerrainGenerator - layered noise density field written into voxel storage
+ *
+ * Density ramps smoothly from 1 to 0 across the surface (0.5 exactly on
+ * it), giving marching cubes real gradients to interpolate. The field is
+ * evaluated in world coordinates, so neighbouring chunks line up:
+ *
+ *   new ChunkManager({
+ *     generator: (storage, origin) => terrain.generate(storage, origin),
+ *   });
+ */
+export class TerrainGenerator {
+  private layers: TerrainLayer[];
+  private falloff: number;
+  private materials: TerrainMaterials;
+
+  constructor(config: TerrainGeneratorConfig = {}) {
+    const seed = config.seed ?? 0;
+    this.layers = config.layers ?? [
+      new HeightmapLayer({ seed }),
+      new OverhangLayer({ seed: seed + 1 }),
+      new CaveLayer({ seed: seed + 2, maxY: 4 }),
+    ];
+    this.falloff = Math.max(config.falloff ?? 2, 1e-6);
+    this.materials = {
+      surface: 3,
+      soil: 2,
+      rock: 1,
+      soilDepth: 4,
+      ...config.materials,
+    };
+  }
+
+  /**
+   * Signed distance to the terrain surface at a world position
+   */
+  sampleField(x: number, y: number, z: number): number {
+    let field = -Infinity;
+    for (const layer of this.layers) {
+      field = layer.apply(field, x, y, z);
+    }
+    return field;
+  }
+
+  /**
+   * Voxel at a world position (density 0 in air)
+   */
+  sample(x: number, y: number, z: number): Voxel {
+    const field = this.sampleField(x, y, z);
+    const density = Math.min(Math.max(0.5 + field / this.falloff, 0), 1);
+    if (density === 0) return { density: 0, material: 0 };
+
+    // Distance below the surface picks the material band
+    const material =
+      field < 1
+        ? this.materials.surface
+        : field < this.materials.soilDepth
+        ? this.materials.soil
+        : this.materials.rock;
+    return { density, material };
+  }
+
+  /**
+   * Fill storage (or a VoxelData's storage) with terrain
+   * @param origin - World position of the storage's local (0, 0, 0)
+   */
+  generate(
+    target: VoxelStorage | { storage: VoxelStorage; markDirty(): void },
+    origin: Vec3 = { x: 0, y: 0, z: 0 }
+  ): void {
+    const storage = "storage" in target ? target.storage : target;
+    const size = storage.getWorldSize();
+
+    for (let x = 0; x < size; x++) {
+      for (let z = 0; z < size; z++) {
+        for (let y = 0; y < size; y++) {
+          const voxel = this.sample(origin.x + x, origin.y + y, origin.z + z);
+          if (voxel.density > 0) {
+            storage.setVoxel({ x, y, z }, voxel);
+          }
+        }
+      }
+    }
+
+    if ("storage" in target) {
+      target.markDirty();
+    }
+  }
+}
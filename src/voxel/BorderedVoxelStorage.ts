@@ -0,0 +1,164 @@
+import { Vec3, Voxel, AABB } from "./types";
+import type { VoxelStorage } from "./VoxelStorage";
+
+/**
+ * Storage of the chunk at an offset (dx, dy, dz each -1, 0 or 1) from the
+ * chunk being meshed, or undefined when that chunk isn't loaded
+ */
+export type ChunkNeighbours = (
+  dx: number,
+  dy: number,
+  dz: number
+) => VoxelStorage | undefined;
+
+/**
+ * BorderedVoxelStorage - a chunk's storage that also reads one voxel past
+ * each face from the neighbouring chunks
+ *
+ * Reads (getVoxel, getDensity, getMaterial) in [-1, size] come from the
+ * neighbour owning that position; anything further out, or in a neighbour
+ * that isn't loaded, is empty. Iteration, bounds and writes cover only the
+ * chunk itself, so meshers still emit geometry for its own voxels but cull
+ * faces and close surfaces against the voxels next door.
+ */
+export class BorderedVoxelStorage implements VoxelStorage {
+  private storage: VoxelStorage;
+  private size: number;
+  private neighbours: (VoxelStorage | undefined)[] = []; // 3x3x3, centre = storage
+
+  constructor(storage: VoxelStorage, neighbours: ChunkNeighbours) {
+    this.storage = storage;
+    this.size = storage.getWorldSize();
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          this.neighbours.push(
+            dx === 0 && dy === 0 && dz === 0 ? storage : neighbours(dx, dy, dz)
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * The wrapped chunk storage
+   */
+  getStorage(): VoxelStorage {
+    return this.storage;
+  }
+
+  getWorldSize(): number {
+    return this.size;
+  }
+
+  getVoxel(position: Vec3): Voxel | null {
+    const [storage, local] = this.resolve(position);
+    return storage ? storage.getVoxel(local) : null;
+  }
+
+  setVoxel(position: Vec3, voxel: Voxel): void {
+    this.storage.setVoxel(position, voxel);
+  }
+
+  getDensity(position: Vec3): number {
+    const [storage, local] = this.resolve(position);
+    return storage ? storage.getDensity(local) : 0;
+  }
+
+  getMaterial(position: Vec3): number {
+    const [storage, local] = this.resolve(position);
+    return storage ? storage.getMaterial(local) : 0;
+  }
+
+  forEachVoxel(
+    callback: (x: number, y: number, z: number, voxel: Voxel) => void
+  ): void {
+    this.storage.forEachVoxel(callback);
+  }
+
+  forEachInRegion(
+    region: AABB,
+    callback: (x: number, y: number, z: number, voxel: Voxel) => void
+  ): void {
+    this.storage.forEachInRegion(region, callback);
+  }
+
+  getBounds(): AABB | null {
+    return this.storage.getBounds();
+  }
+
+  /**
+   * Bounds of the non-empty voxels readable through this view: the chunk's
+   * own plus those in its one-voxel border (max exclusive)
+   */
+  getBorderedBounds(): AABB | null {
+    let result: AABB | null = null;
+    const size = this.size;
+
+    let i = 0;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const bounds = this.neighbours[i++]?.getBounds();
+          if (!bounds) continue;
+
+          // Into this chunk's coordinates, clipped to the border
+          const min = {
+            x: Math.max(bounds.min.x + dx * size, -1),
+            y: Math.max(bounds.min.y + dy * size, -1),
+            z: Math.max(bounds.min.z + dz * size, -1),
+          };
+          const max = {
+            x: Math.min(bounds.max.x + dx * size, size + 1),
+            y: Math.min(bounds.max.y + dy * size, size + 1),
+            z: Math.min(bounds.max.z + dz * size, size + 1),
+          };
+          if (min.x >= max.x || min.y >= max.y || min.z >= max.z) continue;
+
+          if (!result) {
+            result = { min, max };
+          } else {
+            result.min.x = Math.min(result.min.x, min.x);
+            result.min.y = Math.min(result.min.y, min.y);
+            result.min.z = Math.min(result.min.z, min.z);
+            result.max.x = Math.max(result.max.x, max.x);
+            result.max.y = Math.max(result.max.y, max.y);
+            result.max.z = Math.max(result.max.z, max.z);
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  clear(): void {
+    this.storage.clear();
+  }
+
+  /**
+   * Storage owning a position and the position inside it
+   */
+  private resolve(position: Vec3): [VoxelStorage | undefined, Vec3] {
+    const x = Math.floor(position.x);
+    const y = Math.floor(position.y);
+    const z = Math.floor(position.z);
+    const size = this.size;
+
+    const dx = x < 0 ? -1 : x >= size ? 1 : 0;
+    const dy = y < 0 ? -1 : y >= size ? 1 : 0;
+    const dz = z < 0 ? -1 : z >= size ? 1 : 0;
+    if (dx === 0 && dy === 0 && dz === 0) {
+      return [this.storage, position];
+    }
+    if (x < -1 || y < -1 || z < -1 || x > size || y > size || z > size) {
+      return [undefined, position];
+    }
+
+    return [
+      this.neighbours[(dx + 1) * 9 + (dy + 1) * 3 + (dz + 1)],
+      { x: x - dx * size, y: y - dy * size, z: z - dz * size },
+    ];
+  }
+}
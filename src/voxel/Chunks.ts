@@ -0,0 +1,47 @@
+import { Vec3 } from "./types";
+
+/**
+ * Chunk coordinate helpers
+ *
+ * World voxel space is split into cubes of `chunkSize` voxels. A chunk
+ * coordinate (cx, cy, cz) covers world voxels [cx * size, (cx + 1) * size)
+ * on each axis; negative coordinates work the same way.
+ */
+
+/**
+ * Chunk containing a world position
+ */
+export function worldToChunk(position: Vec3, chunkSize: number): Vec3 {
+  return {
+    x: Math.floor(position.x / chunkSize),
+    y: Math.floor(position.y / chunkSize),
+    z: Math.floor(position.z / chunkSize),
+  };
+}
+
+/**
+ * Position of a world voxel inside its chunk, in [0, chunkSize)
+ */
+export function worldToLocal(position: Vec3, chunkSize: number): Vec3 {
+  const wrap = (v: number) =>
+    ((Math.floor(v) % chunkSize) + chunkSize) % chunkSize;
+  return { x: wrap(position.x), y: wrap(position.y), z: wrap(position.z) };
+}
+
+/**
+ * World position of a chunk's minimum corner
+ */
+export function chunkToWorld(coord: Vec3, chunkSize: number): Vec3 {
+  return {
+    x: coord.x * chunkSize,
+    y: coord.y * chunkSize,
+    z: coord.z * chunkSize,
+  };
+}
+
+/**
+ * Stable string key for a chunk coordinate
+ */
+export function chunkKey(coord: Vec3): string {
+  return `${coord.x},${coord.y},${coord.z}`;
+}
@@ -1,5 +1,6 @@
 import { Vec3, Voxel } from "./types";
-import { Octree } from "./Octree";
+import { VoxelStorage } from "./VoxelStorage";
+import { MaterialRegistry } from "./MaterialRegistry";
 
 /**
  * Vertex data for generated mesh
@@ -8,6 +9,8 @@ export interface MeshVertex {
   position: Vec3;
   normal: Vec3;
   color: Vec3;
+  ao?: number; // Ambient light reaching the vertex, 0-1 (default: 1)
+  material?: number; // Material ID, for per-material shading
 }
 
 /**
@@ -16,51 +19,297 @@ export interface MeshVertex {
 export interface Mesh {
   vertices: MeshVertex[];
   indices: number[];
+  cubicTriangles?: number; // Greedy meshes: triangle count without merging
+}
+
+// Brightness for 0-3 unoccluded neighbours around a face corner
+const AO_LEVELS = [0.4, 0.6, 0.8, 1.0];
+
+// Corner directions along a face's (u, v) axes, in addFace's corner order
+const FACE_CORNERS = [
+  [-1, -1],
+  [1, -1],
+  [1, 1],
+  [-1, 1],
+];
+
+/**
+ * In-face axes for faces facing along axis d, ordered as addFace lays out
+ * its corners
+ */
+function faceAxes(d: number): [number, number] {
+  return [d === 0 ? 1 : 0, d === 2 ? 1 : 2];
+}
+
+/**
+ * Classic per-vertex ambient occlusion for the four corners of a face
+ * Each corner looks at the two side neighbours and the diagonal one in the
+ * layer in front of the face: 3 = open, 0 = both sides solid.
+ * @param cell - Position of the solid voxel owning the face
+ * @param step - Distance between neighbouring voxels
+ */
+function faceOcclusion(
+  solid: (position: number[]) => boolean,
+  cell: number[],
+  d: number,
+  side: number,
+  step: number
+): number[] {
+  const [u, v] = faceAxes(d);
+
+  return FACE_CORNERS.map(([du, dv]) => {
+    const p = [...cell];
+    p[d] += side * step;
+    p[u] += du * step;
+    const side1 = solid(p);
+    p[v] += dv * step;
+    const corner = solid(p);
+    p[u] -= du * step;
+    const side2 = solid(p);
+
+    if (side1 && side2) return 0;
+    return 3 - (side1 ? 1 : 0) - (side2 ? 1 : 0) - (corner ? 1 : 0);
+  });
 }
 
 /**
  * Cubic voxel mesh generator (Minecraft-style blocks with face culling)
- * Generates blocky meshes from voxel data
+ * Generates blocky meshes from voxel data, with per-vertex ambient
+ * occlusion baked into each face corner
  */
 export class CubicVoxelMesher {
   private isoLevel = 0.5;
+  private materials: MaterialRegistry;
 
-  constructor(isoLevel = 0.5) {
+  constructor(isoLevel = 0.5, materials = MaterialRegistry.createDefault()) {
     this.isoLevel = isoLevel;
+    this.materials = materials;
   }
 
   setIsoLevel(level: number): void {
     this.isoLevel = level;
   }
 
+  setMaterials(materials: MaterialRegistry): void {
+    this.materials = materials;
+  }
+
   /**
-   * Generate mesh from octree using simple cube rendering with face culling
+   * Generate mesh from voxel storage using simple cube rendering with face culling
    */
-  generateMesh(octree: Octree, resolution = 1): Mesh {
+  generateMesh(storage: VoxelStorage, resolution = 1): Mesh {
     const vertices: MeshVertex[] = [];
     const indices: number[] = [];
-    const worldSize = octree.getWorldSize();
-
-    // Generate cubes for solid voxels
-    for (let x = 0; x < worldSize; x += resolution) {
-      for (let y = 0; y < worldSize; y += resolution) {
-        for (let z = 0; z < worldSize; z += resolution) {
-          const voxel = octree.getVoxel({ x, y, z });
-          if (voxel && voxel.density > this.isoLevel) {
-            this.addCube(
-              vertices,
-              indices,
-              { x, y, z },
-              resolution,
-              voxel,
-              octree
-            );
+
+    // Generate cubes for solid voxels (empty space is never visited)
+    storage.forEachVoxel((x, y, z, voxel) => {
+      if (
+        voxel.density > this.isoLevel &&
+        x % resolution === 0 &&
+        y % resolution === 0 &&
+        z % resolution === 0
+      ) {
+        this.addCube(
+          vertices,
+          indices,
+          { x, y, z },
+          resolution,
+          voxel,
+          storage
+        );
+      }
+    });
+
+    return { vertices, indices };
+  }
+
+  /**
+   * Generate mesh with greedy meshing: exposed faces that are coplanar and
+   * share a material are merged into maximal rectangles. Covers exactly the
+   * same surface as generateMesh with far fewer triangles on flat areas.
+   * Only faces with the same occlusion at all four corners are merged, so
+   * the shading matches too.
+   */
+  generateGreedyMesh(storage: VoxelStorage, resolution = 1): Mesh {
+    const vertices: MeshVertex[] = [];
+    const indices: number[] = [];
+
+    const bounds = storage.getBounds();
+    if (!bounds) {
+      return { vertices, indices, cubicTriangles: 0 };
+    }
+
+    // Cells are the voxels at multiples of resolution within the bounds
+    const min = [
+      Math.ceil(bounds.min.x / resolution),
+      Math.ceil(bounds.min.y / resolution),
+      Math.ceil(bounds.min.z / resolution),
+    ];
+    const dims = [
+      Math.ceil(bounds.max.x / resolution) - min[0],
+      Math.ceil(bounds.max.y / resolution) - min[1],
+      Math.ceil(bounds.max.z / resolution) - min[2],
+    ];
+
+    // material + 1 for solid cells, 0 for empty; cells outside the bounds
+    // are read from the storage, so a bordered chunk culls against the
+    // voxels next door
+    const cells = new Int32Array(dims[0] * dims[1] * dims[2]);
+    const cellIndex = (x: number, y: number, z: number) =>
+      (x * dims[1] + y) * dims[2] + z;
+    storage.forEachInRegion(bounds, (x, y, z, voxel) => {
+      if (
+        voxel.density > this.isoLevel &&
+        x % resolution === 0 &&
+        y % resolution === 0 &&
+        z % resolution === 0
+      ) {
+        cells[
+          cellIndex(
+            x / resolution - min[0],
+            y / resolution - min[1],
+            z / resolution - min[2]
+          )
+        ] = voxel.material + 1;
+      }
+    });
+    const cellAt = (c: number[]) => {
+      if (
+        c[0] >= 0 &&
+        c[1] >= 0 &&
+        c[2] >= 0 &&
+        c[0] < dims[0] &&
+        c[1] < dims[1] &&
+        c[2] < dims[2]
+      ) {
+        return cells[cellIndex(c[0], c[1], c[2])];
+      }
+      const position = {
+        x: (min[0] + c[0]) * resolution,
+        y: (min[1] + c[1]) * resolution,
+        z: (min[2] + c[2]) * resolution,
+      };
+      return storage.getDensity(position) > this.isoLevel
+        ? storage.getMaterial(position) + 1
+        : 0;
+    };
+
+    const solid = (c: number[]) => cellAt(c) !== 0;
+
+    let faceCount = 0;
+
+    for (let d = 0; d < 3; d++) {
+      const [u, v] = faceAxes(d);
+      // (material + 1) << 8 | corner occlusion, 2 bits each; 0 = no face
+      const mask = new Int32Array(dims[u] * dims[v]);
+
+      for (const side of [1, -1]) {
+        const normal = [0, 0, 0];
+        normal[d] = side;
+
+        for (let slice = 0; slice < dims[d]; slice++) {
+          // Exposed faces in this slice
+          const cell = [0, 0, 0];
+          const neighbour = [0, 0, 0];
+          cell[d] = slice;
+          neighbour[d] = slice + side;
+          for (let j = 0; j < dims[v]; j++) {
+            for (let i = 0; i < dims[u]; i++) {
+              cell[u] = neighbour[u] = i;
+              cell[v] = neighbour[v] = j;
+              const material = cellAt(cell);
+              if (material === 0 || cellAt(neighbour) !== 0) {
+                mask[j * dims[u] + i] = 0;
+                continue;
+              }
+
+              const occlusion = faceOcclusion(solid, cell, d, side, 1);
+              mask[j * dims[u] + i] =
+                (material << 8) |
+                occlusion[0] |
+                (occlusion[1] << 2) |
+                (occlusion[2] << 4) |
+                (occlusion[3] << 6);
+              faceCount++;
+            }
+          }
+
+          // Grow each face right then down into the largest rectangle
+          for (let j = 0; j < dims[v]; j++) {
+            for (let i = 0; i < dims[u]; ) {
+              const key = mask[j * dims[u] + i];
+              if (key === 0) {
+                i++;
+                continue;
+              }
+              const occlusion = [0, 2, 4, 6].map((shift) => (key >> shift) & 3);
+
+              // Corner shading only stretches correctly over a merged
+              // rectangle when it's the same at every corner
+              const mergeable = occlusion.every((ao) => ao === occlusion[0]);
+
+              let width = 1;
+              while (
+                mergeable &&
+                i + width < dims[u] &&
+                mask[j * dims[u] + i + width] === key
+              ) {
+                width++;
+              }
+
+              let height = 1;
+              grow: while (mergeable && j + height < dims[v]) {
+                for (let k = 0; k < width; k++) {
+                  if (mask[(j + height) * dims[u] + i + k] !== key) {
+                    break grow;
+                  }
+                }
+                height++;
+              }
+
+              for (let dj = 0; dj < height; dj++) {
+                mask.fill(
+                  0,
+                  (j + dj) * dims[u] + i,
+                  (j + dj) * dims[u] + i + width
+                );
+              }
+
+              const plane = (min[d] + slice + (side > 0 ? 1 : 0)) * resolution;
+              const u0 = (min[u] + i) * resolution;
+              const u1 = (min[u] + i + width) * resolution;
+              const v0 = (min[v] + j) * resolution;
+              const v1 = (min[v] + j + height) * resolution;
+              const corner = (cu: number, cv: number): Vec3 => {
+                const c = [0, 0, 0];
+                c[d] = plane;
+                c[u] = cu;
+                c[v] = cv;
+                return { x: c[0], y: c[1], z: c[2] };
+              };
+
+              this.addQuad(
+                vertices,
+                indices,
+                [
+                  corner(u0, v0),
+                  corner(u1, v0),
+                  corner(u1, v1),
+                  corner(u0, v1),
+                ],
+                normal,
+                (key >> 8) - 1,
+                occlusion
+              );
+
+              i += width;
+            }
           }
         }
       }
     }
 
-    return { vertices, indices };
+    return { vertices, indices, cubicTriangles: faceCount * 2 };
   }
 
   /**
@@ -72,61 +321,106 @@ export class CubicVoxelMesher {
     pos: Vec3,
     size: number,
     voxel: Voxel,
-    octree: Octree
+    storage: VoxelStorage
   ): void {
-    const startIndex = vertices.length;
-    const color = this.getMaterialColor(voxel.material);
-
     // Check neighbors for face culling
     const neighbors = {
       right:
-        octree.getDensity({ x: pos.x + size, y: pos.y, z: pos.z }) >
+        storage.getDensity({ x: pos.x + size, y: pos.y, z: pos.z }) >
         this.isoLevel,
       left:
-        octree.getDensity({ x: pos.x - size, y: pos.y, z: pos.z }) >
+        storage.getDensity({ x: pos.x - size, y: pos.y, z: pos.z }) >
         this.isoLevel,
       top:
-        octree.getDensity({ x: pos.x, y: pos.y + size, z: pos.z }) >
+        storage.getDensity({ x: pos.x, y: pos.y + size, z: pos.z }) >
         this.isoLevel,
       bottom:
-        octree.getDensity({ x: pos.x, y: pos.y - size, z: pos.z }) >
+        storage.getDensity({ x: pos.x, y: pos.y - size, z: pos.z }) >
         this.isoLevel,
       front:
-        octree.getDensity({ x: pos.x, y: pos.y, z: pos.z + size }) >
+        storage.getDensity({ x: pos.x, y: pos.y, z: pos.z + size }) >
         this.isoLevel,
       back:
-        octree.getDensity({ x: pos.x, y: pos.y, z: pos.z - size }) >
+        storage.getDensity({ x: pos.x, y: pos.y, z: pos.z - size }) >
         this.isoLevel,
     };
 
     // Right face (+X)
     if (!neighbors.right) {
-      this.addFace(vertices, indices, pos, size, [1, 0, 0], color, startIndex);
+      this.addFace(
+        vertices,
+        indices,
+        pos,
+        size,
+        [1, 0, 0],
+        voxel.material,
+        this.getOcclusion(storage, pos, size, [1, 0, 0])
+      );
     }
 
     // Left face (-X)
     if (!neighbors.left) {
-      this.addFace(vertices, indices, pos, size, [-1, 0, 0], color, startIndex);
+      this.addFace(
+        vertices,
+        indices,
+        pos,
+        size,
+        [-1, 0, 0],
+        voxel.material,
+        this.getOcclusion(storage, pos, size, [-1, 0, 0])
+      );
     }
 
     // Top face (+Y)
     if (!neighbors.top) {
-      this.addFace(vertices, indices, pos, size, [0, 1, 0], color, startIndex);
+      this.addFace(
+        vertices,
+        indices,
+        pos,
+        size,
+        [0, 1, 0],
+        voxel.material,
+        this.getOcclusion(storage, pos, size, [0, 1, 0])
+      );
     }
 
     // Bottom face (-Y)
     if (!neighbors.bottom) {
-      this.addFace(vertices, indices, pos, size, [0, -1, 0], color, startIndex);
+      this.addFace(
+        vertices,
+        indices,
+        pos,
+        size,
+        [0, -1, 0],
+        voxel.material,
+        this.getOcclusion(storage, pos, size, [0, -1, 0])
+      );
     }
 
     // Front face (+Z)
     if (!neighbors.front) {
-      this.addFace(vertices, indices, pos, size, [0, 0, 1], color, startIndex);
+      this.addFace(
+        vertices,
+        indices,
+        pos,
+        size,
+        [0, 0, 1],
+        voxel.material,
+        this.getOcclusion(storage, pos, size, [0, 0, 1])
+      );
     }
 
     // Back face (-Z)
     if (!neighbors.back) {
-      this.addFace(vertices, indices, pos, size, [0, 0, -1], color, startIndex);
+      this.addFace(
+        vertices,
+        indices,
+        pos,
+        size,
+        [0, 0, -1],
+        voxel.material,
+        this.getOcclusion(storage, pos, size, [0, 0, -1])
+      );
     }
   }
 
@@ -139,10 +433,9 @@ export class CubicVoxelMesher {
     pos: Vec3,
     size: number,
     normal: number[],
-    color: Vec3,
-    baseIndex: number
+    material: number,
+    occlusion: number[]
   ): void {
-    const currentIndex = vertices.length;
     const [nx, ny, nz] = normal;
 
     // Calculate face vertices based on normal direction
@@ -177,37 +470,62 @@ export class CubicVoxelMesher {
       );
     }
 
+    this.addQuad(vertices, indices, faceVertices, normal, material, occlusion);
+  }
+
+  /**
+   * Corner occlusion for one face of a cube
+   */
+  private getOcclusion(
+    storage: VoxelStorage,
+    pos: Vec3,
+    size: number,
+    normal: number[]
+  ): number[] {
+    const d = normal.findIndex((n) => n !== 0);
+    return faceOcclusion(
+      (p) => storage.getDensity({ x: p[0], y: p[1], z: p[2] }) > this.isoLevel,
+      [pos.x, pos.y, pos.z],
+      d,
+      normal[d],
+      size
+    );
+  }
+
+  /**
+   * Add a quad from its four corners
+   * @param occlusion - Per-corner occlusion from faceOcclusion
+   */
+  private addQuad(
+    vertices: MeshVertex[],
+    indices: number[],
+    corners: Vec3[],
+    normal: number[],
+    material: number,
+    occlusion: number[]
+  ): void {
+    const currentIndex = vertices.length;
+    const [nx, ny, nz] = normal;
+    const color = this.materials.getColor(material);
+
     // Add vertices
-    for (const v of faceVertices) {
+    corners.forEach((v, corner) => {
       vertices.push({
         position: v,
         normal: { x: nx, y: ny, z: nz },
         color,
+        ao: AO_LEVELS[occlusion[corner]],
+        material,
       });
-    }
+    });
 
-    // Add indices (two triangles per face)
+    // Add indices (two triangles per face), split along the darker
+    // diagonal so occlusion fades evenly instead of in a skewed triangle
     const i = currentIndex;
-    indices.push(i, i + 1, i + 2, i, i + 2, i + 3);
-  }
-
-  /**
-   * Get color based on material ID
-   */
-  private getMaterialColor(material: number): Vec3 {
-    switch (material) {
-      case 1:
-        return { x: 0.5, y: 0.5, z: 0.5 }; // Stone - gray
-      case 2:
-        return { x: 0.4, y: 0.3, z: 0.2 }; // Dirt - brown
-      case 3:
-        return { x: 0.2, y: 0.8, z: 0.2 }; // Grass - green
-      case 4:
-        return { x: 0.8, y: 0.2, z: 0.2 }; // Red
-      case 5:
-        return { x: 0.2, y: 0.2, z: 0.8 }; // Blue
-      default:
-        return { x: 1.0, y: 1.0, z: 1.0 }; // White
+    if (occlusion[0] + occlusion[2] > occlusion[1] + occlusion[3]) {
+      indices.push(i + 1, i + 2, i + 3, i + 1, i + 3, i);
+    } else {
+      indices.push(i, i + 1, i + 2, i, i + 2, i + 3);
     }
   }
 }
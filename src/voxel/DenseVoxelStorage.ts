@@ -0,0 +1,135 @@
+import { Vec3, Voxel, AABB } from "./types";
+import { VoxelStorage } from "./VoxelStorage";
+import { VoxelBounds } from "./VoxelBounds";
+
+const MAX_MATERIAL = 0xff;
+
+/**
+ * Dense voxel storage - one Uint16 per voxel, packed as
+ * (material << 8) | density, with density quantized to 0-255
+ *
+ * Constant-time access with no per-voxel allocation. Materials must be
+ * 0-255; densities lose precision below 1/255 (any non-zero density is
+ * kept as at least 1/255 so voxels never disappear).
+ */
+export class DenseVoxelStorage implements VoxelStorage {
+  private size: number;
+  private data: Uint16Array;
+  private bounds = new VoxelBounds();
+
+  constructor(size = 32) {
+    this.size = size;
+    this.data = new Uint16Array(size * size * size);
+  }
+
+  getWorldSize(): number {
+    return this.size;
+  }
+
+  getVoxel(position: Vec3): Voxel | null {
+    const index = this.indexOf(position);
+    if (index < 0) return null;
+
+    const packed = this.data[index];
+    return packed & 0xff ? this.unpack(packed) : null;
+  }
+
+  setVoxel(position: Vec3, voxel: Voxel): void {
+    const index = this.indexOf(position);
+    if (index < 0) return;
+
+    if (voxel.material < 0 || voxel.material > MAX_MATERIAL) {
+      throw new Error(
+        `DenseVoxelStorage supports materials 0-${MAX_MATERIAL}, got ${voxel.material}`
+      );
+    }
+
+    const density = Math.min(Math.max(voxel.density, 0), 1);
+    const quantized = density > 0 ? Math.max(1, Math.round(density * 255)) : 0;
+    const wasEmpty = !(this.data[index] & 0xff);
+    this.data[index] = quantized ? (voxel.material << 8) | quantized : 0;
+
+    const { x, y, z } = this.coordsOf(index);
+    if (wasEmpty && quantized) {
+      this.bounds.add(x, y, z);
+    } else if (!wasEmpty && !quantized) {
+      this.bounds.remove(x, y, z);
+    }
+  }
+
+  getDensity(position: Vec3): number {
+    const index = this.indexOf(position);
+    return index < 0 ? 0 : (this.data[index] & 0xff) / 255;
+  }
+
+  getMaterial(position: Vec3): number {
+    const index = this.indexOf(position);
+    return index < 0 || !(this.data[index] & 0xff) ? 0 : this.data[index] >> 8;
+  }
+
+  forEachVoxel(
+    callback: (x: number, y: number, z: number, voxel: Voxel) => void
+  ): void {
+    for (let index = 0; index < this.data.length; index++) {
+      const packed = this.data[index];
+      if (packed & 0xff) {
+        const { x, y, z } = this.coordsOf(index);
+        callback(x, y, z, this.unpack(packed));
+      }
+    }
+  }
+
+  forEachInRegion(
+    region: AABB,
+    callback: (x: number, y: number, z: number, voxel: Voxel) => void
+  ): void {
+    const size = this.size;
+    const maxX = Math.min(size, region.max.x);
+    const maxY = Math.min(size, region.max.y);
+    const maxZ = Math.min(size, region.max.z);
+    for (let z = Math.max(0, region.min.z); z < maxZ; z++) {
+      for (let y = Math.max(0, region.min.y); y < maxY; y++) {
+        for (let x = Math.max(0, region.min.x); x < maxX; x++) {
+          const packed = this.data[x + size * (y + size * z)];
+          if (packed & 0xff) callback(x, y, z, this.unpack(packed));
+        }
+      }
+    }
+  }
+
+  getBounds(): AABB | null {
+    return this.bounds.get((visit) => this.forEachVoxel(visit));
+  }
+
+  clear(): void {
+    this.data.fill(0);
+    this.bounds.clear();
+  }
+
+  /**
+   * Flat array index (x fastest), or -1 outside the cube
+   */
+  private indexOf(position: Vec3): number {
+    const x = Math.floor(position.x);
+    const y = Math.floor(position.y);
+    const z = Math.floor(position.z);
+    const size = this.size;
+    if (x < 0 || y < 0 || z < 0 || x >= size || y >= size || z >= size) {
+      return -1;
+    }
+    return x + size * (y + size * z);
+  }
+
+  private coordsOf(index: number): Vec3 {
+    const size = this.size;
+    return {
+      x: index % size,
+      y: Math.floor(index / size) % size,
+      z: Math.floor(index / (size * size)),
+    };
+  }
+
+  private unpack(packed: number): Voxel {
+    return { density: (packed & 0xff) / 255, material: packed >> 8 };
+  }
+}
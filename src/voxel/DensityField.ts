@@ -0,0 +1,95 @@
+import { Vec3 } from "./types";
+import type { VoxelGrid } from "./MarchingCubes";
+import { cornerOffsets } from "./MarchingCubesTables";
+
+/**
+ * Densities of a region of a VoxelGrid, sampled once up front
+ * Lookups outside the region clamp to its edge.
+ */
+export class DensityField {
+  private values: Float32Array;
+  private min: Vec3;
+  private max: Vec3; // Inclusive
+  private sizeY: number;
+  private sizeZ: number;
+
+  constructor(grid: VoxelGrid, min: Vec3, max: Vec3) {
+    this.min = min;
+    this.max = max;
+    const sizeX = max.x - min.x + 1;
+    this.sizeY = max.y - min.y + 1;
+    this.sizeZ = max.z - min.z + 1;
+    this.values = new Float32Array(sizeX * this.sizeY * this.sizeZ);
+
+    let i = 0;
+    for (let x = min.x; x <= max.x; x++) {
+      for (let y = min.y; y <= max.y; y++) {
+        for (let z = min.z; z <= max.z; z++) {
+          this.values[i++] = grid.getDensity(x, y, z);
+        }
+      }
+    }
+  }
+
+  get(x: number, y: number, z: number): number {
+    x = Math.min(Math.max(x, this.min.x), this.max.x) - this.min.x;
+    y = Math.min(Math.max(y, this.min.y), this.max.y) - this.min.y;
+    z = Math.min(Math.max(z, this.min.z), this.max.z) - this.min.z;
+    return this.values[(x * this.sizeY + y) * this.sizeZ + z];
+  }
+
+  /**
+   * Central-difference density gradient at a grid point (one-sided at the
+   * region's edges). Points into the solid.
+   */
+  gradientAt(x: number, y: number, z: number): Vec3 {
+    const x0 = Math.max(x - 1, this.min.x);
+    const x1 = Math.min(x + 1, this.max.x);
+    const y0 = Math.max(y - 1, this.min.y);
+    const y1 = Math.min(y + 1, this.max.y);
+    const z0 = Math.max(z - 1, this.min.z);
+    const z1 = Math.min(z + 1, this.max.z);
+    return {
+      x: x1 > x0 ? (this.get(x1, y, z) - this.get(x0, y, z)) / (x1 - x0) : 0,
+      y: y1 > y0 ? (this.get(x, y1, z) - this.get(x, y0, z)) / (y1 - y0) : 0,
+      z: z1 > z0 ? (this.get(x, y, z1) - this.get(x, y, z0)) / (z1 - z0) : 0,
+    };
+  }
+
+  /**
+   * Gradient anywhere, trilinearly interpolated from the surrounding grid
+   * points
+   */
+  sampleGradient(position: Vec3): Vec3 {
+    const x0 = Math.min(Math.floor(position.x), this.max.x - 1);
+    const y0 = Math.min(Math.floor(position.y), this.max.y - 1);
+    const z0 = Math.min(Math.floor(position.z), this.max.z - 1);
+    const tx = position.x - x0;
+    const ty = position.y - y0;
+    const tz = position.z - z0;
+
+    const gradient = { x: 0, y: 0, z: 0 };
+    for (const [dx, dy, dz] of cornerOffsets) {
+      const weight =
+        (dx ? tx : 1 - tx) * (dy ? ty : 1 - ty) * (dz ? tz : 1 - tz);
+      if (weight === 0) continue;
+      const g = this.gradientAt(x0 + dx, y0 + dy, z0 + dz);
+      gradient.x += g.x * weight;
+      gradient.y += g.y * weight;
+      gradient.z += g.z * weight;
+    }
+    return gradient;
+  }
+
+  /**
+   * Unit surface normal (pointing out of the solid) at a position
+   */
+  sampleNormal(position: Vec3): Vec3 {
+    const g = this.sampleGradient(position);
+    const length = Math.sqrt(g.x * g.x + g.y * g.y + g.z * g.z);
+    if (length > 0) {
+      return { x: -g.x / length, y: -g.y / length, z: -g.z / length };
+    }
+    return { x: 0, y: 1, z: 0 };
+  }
+}
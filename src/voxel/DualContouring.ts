@@ -0,0 +1,109 @@
+import { Vec3 } from "./types";
+import { DualCell, DualMesher } from "./DualMesher";
+import { MaterialRegistry } from "./MaterialRegistry";
+
+/**
+ * Dual Contouring - each vertex where the surface's tangent planes meet
+ *
+ * Hermite data (edge crossings plus normals from the density gradient)
+ * defines a plane per crossing; the vertex minimizes the squared distance
+ * to all of them (the QEF). Where planes meet at an angle this lands on the
+ * edge or corner between them, so sharp features survive.
+ */
+export class DualContouring extends DualMesher {
+  private bias: number;
+
+  /**
+   * @param bias - Pull towards the crossings' average, keeping flat and
+   *   near-flat cells stable (default: 0.05)
+   */
+  constructor(
+    isoLevel = 0.5,
+    materials = MaterialRegistry.createDefault(),
+    bias = 0.05
+  ) {
+    super(isoLevel, materials);
+    this.bias = bias;
+  }
+
+  setBias(bias: number): void {
+    this.bias = bias;
+  }
+
+  protected placeVertex(cell: DualCell): Vec3 {
+    const { crossings, field } = cell;
+
+    // Solve relative to the mass point so the bias pulls towards it
+    const mass = { x: 0, y: 0, z: 0 };
+    for (const p of crossings) {
+      mass.x += p.x / crossings.length;
+      mass.y += p.y / crossings.length;
+      mass.z += p.z / crossings.length;
+    }
+
+    // Normal equations of the QEF: (AᵀA + bias·I) x = Aᵀb
+    let a00 = this.bias;
+    let a01 = 0;
+    let a02 = 0;
+    let a11 = this.bias;
+    let a12 = 0;
+    let a22 = this.bias;
+    let b0 = 0;
+    let b1 = 0;
+    let b2 = 0;
+    for (const p of crossings) {
+      const n = field.sampleNormal(p);
+      const d =
+        n.x * (p.x - mass.x) + n.y * (p.y - mass.y) + n.z * (p.z - mass.z);
+      a00 += n.x * n.x;
+      a01 += n.x * n.y;
+      a02 += n.x * n.z;
+      a11 += n.y * n.y;
+      a12 += n.y * n.z;
+      a22 += n.z * n.z;
+      b0 += n.x * d;
+      b1 += n.y * d;
+      b2 += n.z * d;
+    }
+
+    const offset = solveSymmetric3(a00, a01, a02, a11, a12, a22, b0, b1, b2);
+    if (!offset) return mass;
+
+    // Vertices outside their cell fold the mesh over itself
+    return {
+      x: Math.min(Math.max(mass.x + offset.x, cell.x), cell.x + 1),
+      y: Math.min(Math.max(mass.y + offset.y, cell.y), cell.y + 1),
+      z: Math.min(Math.max(mass.z + offset.z, cell.z), cell.z + 1),
+    };
+  }
+}
+
+/**
+ * Solve a symmetric 3x3 system by Cramer's rule (null if singular)
+ */
+function solveSymmetric3(
+  a00: number,
+  a01: number,
+  a02: number,
+  a11: number,
+  a12: number,
+  a22: number,
+  b0: number,
+  b1: number,
+  b2: number
+): Vec3 | null {
+  const c00 = a11 * a22 - a12 * a12;
+  const c01 = a02 * a12 - a01 * a22;
+  const c02 = a01 * a12 - a02 * a11;
+  const det = a00 * c00 + a01 * c01 + a02 * c02;
+  if (Math.abs(det) < 1e-12) return null;
+
+  const c11 = a00 * a22 - a02 * a02;
+  const c12 = a01 * a02 - a00 * a12;
+  const c22 = a00 * a11 - a01 * a01;
+  return {
+    x: (c00 * b0 + c01 * b1 + c02 * b2) / det,
+    y: (c01 * b0 + c11 * b1 + c12 * b2) / det,
+    z: (c02 * b0 + c12 * b1 + c22 * b2) / det,
+  };
+}
@@ -0,0 +1,234 @@
+import { Vec3 } from "./types";
+import type { Mesh, MeshVertex, VoxelGrid } from "./MarchingCubes";
+import { MaterialRegistry } from "./MaterialRegistry";
+import { cornerOffsets, edgeConnections } from "./MarchingCubesTables";
+import { DensityField } from "./DensityField";
+
+/**
+ * A cell the surface passes through, handed to DualMesher.placeVertex
+ */
+export interface DualCell {
+  x: number; // Minimum corner
+  y: number;
+  z: number;
+  corners: number[]; // Densities, in cornerOffsets order
+  crossings: Vec3[]; // Where the surface crosses the cell's edges
+  field: DensityField;
+}
+
+/**
+ * DualMesher - base for dual methods (Surface Nets, Dual Contouring)
+ *
+ * Emits one vertex per cell the surface passes through and one quad per
+ * grid edge it crosses, joining the four cells around that edge. Vertices
+ * are shared between quads and take their normal from the density
+ * gradient, so meshes are indexed and smooth-shaded. Subclasses decide
+ * where in its cell each vertex goes.
+ */
+export abstract class DualMesher {
+  protected isoLevel: number;
+  protected materials: MaterialRegistry;
+
+  constructor(isoLevel = 0.5, materials = MaterialRegistry.createDefault()) {
+    this.isoLevel = isoLevel;
+    this.materials = materials;
+  }
+
+  setIsoLevel(level: number): void {
+    this.isoLevel = level;
+  }
+
+  setMaterials(materials: MaterialRegistry): void {
+    this.materials = materials;
+  }
+
+  generateMesh(grid: VoxelGrid): Mesh {
+    const vertices: MeshVertex[] = [];
+    const indices: number[] = [];
+
+    const sizeX = grid.getSizeX();
+    const sizeY = grid.getSizeY();
+    const sizeZ = grid.getSizeZ();
+
+    // Same cell range as marching cubes. A bordered grid also needs the
+    // cells just below its near faces, so the quads around edges on those
+    // faces can be closed; edges starting there belong to the neighbour.
+    const border = grid.bordered ? 1 : 0;
+    const bounds = grid.getBounds ? grid.getBounds() : undefined;
+    if (bounds === null) {
+      return { vertices, indices };
+    }
+    const minX = Math.max(-border, bounds ? bounds.min.x - 1 : 0);
+    const minY = Math.max(-border, bounds ? bounds.min.y - 1 : 0);
+    const minZ = Math.max(-border, bounds ? bounds.min.z - 1 : 0);
+    const maxX = Math.min(sizeX - 1 + border, bounds ? bounds.max.x : sizeX);
+    const maxY = Math.min(sizeY - 1 + border, bounds ? bounds.max.y : sizeY);
+    const maxZ = Math.min(sizeZ - 1 + border, bounds ? bounds.max.z : sizeZ);
+    if (maxX <= minX || maxY <= minY || maxZ <= minZ) {
+      return { vertices, indices };
+    }
+
+    // One extra sample each side for the gradients
+    const field = new DensityField(
+      grid,
+      {
+        x: Math.max(-border, minX - 1),
+        y: Math.max(-border, minY - 1),
+        z: Math.max(-border, minZ - 1),
+      },
+      {
+        x: Math.min(sizeX - 1 + border, maxX + 1),
+        y: Math.min(sizeY - 1 + border, maxY + 1),
+        z: Math.min(sizeZ - 1 + border, maxZ + 1),
+      }
+    );
+
+    // Vertex index of each cell (-1 = surface doesn't pass through)
+    const cellsY = maxY - minY;
+    const cellsZ = maxZ - minZ;
+    const cellVertex = new Int32Array((maxX - minX) * cellsY * cellsZ).fill(-1);
+    const cellIndex = (x: number, y: number, z: number) =>
+      ((x - minX) * cellsY + (y - minY)) * cellsZ + (z - minZ);
+
+    for (let x = minX; x < maxX; x++) {
+      for (let y = minY; y < maxY; y++) {
+        for (let z = minZ; z < maxZ; z++) {
+          const vertex = this.createVertex(grid, field, x, y, z);
+          if (vertex) {
+            cellVertex[cellIndex(x, y, z)] = vertices.length;
+            vertices.push(vertex);
+          }
+        }
+      }
+    }
+
+    // A quad around every crossed edge whose four cells are all in range
+    for (let x = minX; x < maxX; x++) {
+      for (let y = minY; y < maxY; y++) {
+        for (let z = minZ; z < maxZ; z++) {
+          if (cellVertex[cellIndex(x, y, z)] < 0) continue;
+          if (x < 0 || y < 0 || z < 0) continue;
+
+          const p = [x, y, z];
+          const min = [minX, minY, minZ];
+          const inside = field.get(x, y, z) > this.isoLevel;
+
+          for (let d = 0; d < 3; d++) {
+            const u = (d + 1) % 3;
+            const v = (d + 2) % 3;
+            if (p[u] === min[u] || p[v] === min[v]) continue;
+
+            const end = [x, y, z];
+            end[d]++;
+            if (field.get(end[0], end[1], end[2]) > this.isoLevel === inside) {
+              continue;
+            }
+
+            // Cells around the edge, counter-clockwise seen from +d
+            const quad: number[] = [];
+            for (const [du, dv] of QUAD_OFFSETS) {
+              const cell = [x, y, z];
+              cell[u] += du;
+              cell[v] += dv;
+              quad.push(cellVertex[cellIndex(cell[0], cell[1], cell[2])]);
+            }
+            // Solid at the start means the surface faces +d
+            if (!inside) quad.reverse();
+
+            this.addQuad(vertices, indices, quad);
+          }
+        }
+      }
+    }
+
+    return { vertices, indices };
+  }
+
+  /**
+   * Position of a cell's vertex, somewhere inside the cell
+   */
+  protected abstract placeVertex(cell: DualCell): Vec3;
+
+  private createVertex(
+    grid: VoxelGrid,
+    field: DensityField,
+    x: number,
+    y: number,
+    z: number
+  ): MeshVertex | null {
+    const corners: number[] = [];
+    let mask = 0;
+    let densest = 0;
+    for (let i = 0; i < 8; i++) {
+      const [dx, dy, dz] = cornerOffsets[i];
+      corners[i] = field.get(x + dx, y + dy, z + dz);
+      if (corners[i] > this.isoLevel) mask |= 1 << i;
+      if (corners[i] > corners[densest]) densest = i;
+    }
+    if (mask === 0 || mask === 255) return null;
+
+    const crossings: Vec3[] = [];
+    for (const [c1, c2] of edgeConnections) {
+      const inside1 = (mask & (1 << c1)) !== 0;
+      const inside2 = (mask & (1 << c2)) !== 0;
+      if (inside1 === inside2) continue;
+
+      const [x1, y1, z1] = cornerOffsets[c1];
+      const [x2, y2, z2] = cornerOffsets[c2];
+      const t = Math.max(
+        0,
+        Math.min(1, (this.isoLevel - corners[c1]) / (corners[c2] - corners[c1]))
+      );
+      crossings.push({
+        x: x + x1 + (x2 - x1) * t,
+        y: y + y1 + (y2 - y1) * t,
+        z: z + z1 + (z2 - z1) * t,
+      });
+    }
+
+    const position = this.placeVertex({ x, y, z, corners, crossings, field });
+
+    // Colour from the most solid corner, so surface cells never pick up air
+    const [dx, dy, dz] = cornerOffsets[densest];
+    const material = grid.getMaterial(x + dx, y + dy, z + dz);
+
+    return {
+      position,
+      normal: field.sampleNormal(position),
+      color: this.materials.getColor(material),
+      material,
+    };
+  }
+
+  /**
+   * Two triangles, split along the shorter diagonal
+   */
+  private addQuad(vertices: MeshVertex[], indices: number[], quad: number[]) {
+    const [a, b, c, d] = quad;
+    if (
+      distanceSquared(vertices[a].position, vertices[c].position) <=
+      distanceSquared(vertices[b].position, vertices[d].position)
+    ) {
+      indices.push(a, b, c, a, c, d);
+    } else {
+      indices.push(a, b, d, b, c, d);
+    }
+  }
+}
+
+/**
+ * (u, v) offsets of the four cells sharing an edge along d
+ */
+const QUAD_OFFSETS = [
+  [-1, -1],
+  [0, -1],
+  [0, 0],
+  [-1, 0],
+];
+
+function distanceSquared(a: Vec3, b: Vec3): number {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const dz = a.z - b.z;
+  return dx * dx + dy * dy + dz * dz;
+}
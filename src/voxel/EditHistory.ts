@@ -0,0 +1,206 @@
+import { Vec3, Voxel } from "./types";
+import type { VoxelEditTarget } from "./VoxelEditor";
+
+export interface VoxelChange {
+  position: Vec3; // In the target's coordinates
+  before: Voxel | null; // null = empty
+  after: Voxel | null;
+}
+
+/**
+ * One undoable step: every voxel it changed, per target, keeping the value
+ * from before the first change and after the last one
+ */
+interface EditStep {
+  changes: Map<VoxelEditTarget, Map<string, VoxelChange>>;
+  voxelCount: number;
+  lastEdit: number;
+}
+
+export interface EditHistoryOptions {
+  maxSteps?: number; // Oldest steps are dropped beyond this (default: 100)
+  maxVoxels?: number; // Recorded voxel changes kept across all steps (default: 1,000,000)
+  mergeWindow?: number; // Edits closer together than this (ms) join one step (default: 0)
+}
+
+/**
+ * EditHistory - undo/redo for voxel edits
+ *
+ * Pass it to a VoxelEditor to record every brush, or call record() after
+ * direct setVoxel edits. Edits between beginStroke() and endStroke() (e.g.
+ * while a mouse button is held) become a single step.
+ */
+export class EditHistory {
+  private undoStack: EditStep[] = [];
+  private redoStack: EditStep[] = [];
+  private current: EditStep | null = null; // Step that new records join
+  private inStroke = false;
+  private voxelCount = 0;
+
+  private maxSteps: number;
+  private maxVoxels: number;
+  private mergeWindow: number;
+
+  constructor(options: EditHistoryOptions = {}) {
+    this.maxSteps = Math.max(options.maxSteps ?? 100, 1);
+    this.maxVoxels = options.maxVoxels ?? 1_000_000;
+    this.mergeWindow = options.mergeWindow ?? 0;
+  }
+
+  /**
+   * Start a step that collects every edit until endStroke()
+   */
+  beginStroke(): void {
+    this.inStroke = true;
+    this.current = null;
+  }
+
+  endStroke(): void {
+    this.inStroke = false;
+    this.current = null;
+  }
+
+  /**
+   * Record one edit whose changes have already been applied
+   */
+  record(target: VoxelEditTarget, edits: VoxelChange[]): void {
+    if (edits.length === 0) return;
+
+    const now = performance.now();
+    const merge =
+      this.current &&
+      (this.inStroke ||
+        (this.mergeWindow > 0 &&
+          now - this.current.lastEdit <= this.mergeWindow));
+
+    if (!merge) {
+      this.current = { changes: new Map(), voxelCount: 0, lastEdit: now };
+      this.undoStack.push(this.current);
+    }
+    const step = this.current!;
+    step.lastEdit = now;
+
+    // New edits invalidate anything that was undone
+    for (const undone of this.redoStack) {
+      this.voxelCount -= undone.voxelCount;
+    }
+    this.redoStack = [];
+
+    let changes = step.changes.get(target);
+    if (!changes) {
+      changes = new Map();
+      step.changes.set(target, changes);
+    }
+
+    for (const { position, before, after } of edits) {
+      const key = `${position.x},${position.y},${position.z}`;
+      const existing = changes.get(key);
+      if (existing) {
+        existing.after = copyVoxel(after);
+      } else {
+        changes.set(key, {
+          position: { ...position },
+          before: copyVoxel(before),
+          after: copyVoxel(after),
+        });
+        step.voxelCount++;
+        this.voxelCount++;
+      }
+    }
+
+    this.enforceLimits();
+  }
+
+  /**
+   * Revert the most recent step
+   * @returns Whether there was anything to undo
+   */
+  undo(): boolean {
+    const step = this.undoStack.pop();
+    if (!step) return false;
+
+    this.current = null;
+    this.applyStep(step, "before");
+    this.redoStack.push(step);
+    return true;
+  }
+
+  /**
+   * Re-apply the most recently undone step
+   * @returns Whether there was anything to redo
+   */
+  redo(): boolean {
+    const step = this.redoStack.pop();
+    if (!step) return false;
+
+    this.current = null;
+    this.applyStep(step, "after");
+    this.undoStack.push(step);
+    return true;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  getUndoCount(): number {
+    return this.undoStack.length;
+  }
+
+  getRedoCount(): number {
+    return this.redoStack.length;
+  }
+
+  /**
+   * Total voxel changes held in history
+   */
+  getVoxelCount(): number {
+    return this.voxelCount;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.current = null;
+    this.voxelCount = 0;
+  }
+
+  private applyStep(step: EditStep, state: "before" | "after"): void {
+    for (const [target, changes] of step.changes) {
+      const voxels = "storage" in target ? target.storage : target;
+      for (const change of changes.values()) {
+        voxels.setVoxel(
+          change.position,
+          change[state] ?? { density: 0, material: 0 }
+        );
+      }
+      if ("storage" in target) {
+        target.markDirty();
+      }
+    }
+  }
+
+  /**
+   * Drop the oldest steps until within limits (the step being recorded
+   * into is always kept)
+   */
+  private enforceLimits(): void {
+    while (
+      this.undoStack.length > 1 &&
+      (this.undoStack.length > this.maxSteps ||
+        this.voxelCount > this.maxVoxels)
+    ) {
+      this.voxelCount -= this.undoStack.shift()!.voxelCount;
+    }
+  }
+}
+
+function copyVoxel(voxel: Voxel | null): Voxel | null {
+  return voxel && voxel.density > 0
+    ? { density: voxel.density, material: voxel.material }
+    : null;
+}
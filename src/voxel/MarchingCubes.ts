@@ -1,4 +1,6 @@
-import { Vec3 } from "./types";
+import { Vec3, AABB } from "./types";
+import { MaterialRegistry } from "./MaterialRegistry";
+import { DensityField } from "./DensityField";
 import {
   edgeTable,
   triTable,
@@ -13,6 +15,8 @@ export interface MeshVertex {
   position: Vec3;
   normal: Vec3;
   color: Vec3;
+  ao?: number; // Ambient light reaching the vertex, 0-1 (default: 1)
+  material?: number; // Material ID, for per-material shading
 }
 
 /**
@@ -21,10 +25,12 @@ export interface MeshVertex {
 export interface Mesh {
   vertices: MeshVertex[];
   indices: number[];
+  cubicTriangles?: number; // Greedy meshes: triangle count without merging
 }
 
 /**
- * Dense voxel grid interface for marching cubes
+ * Dense voxel grid interface for the smooth meshers (marching cubes,
+ * surface nets, dual contouring)
  */
 export interface VoxelGrid {
   getSizeX(): number;
@@ -32,6 +38,14 @@ export interface VoxelGrid {
   getSizeZ(): number;
   getDensity(x: number, y: number, z: number): number;
   getMaterial(x: number, y: number, z: number): number;
+  /** Occupied region (max exclusive); cubes outside it are skipped */
+  getBounds?(): AABB | null;
+  /**
+   * Densities are also valid one sample past each face (-1 and size), read
+   * from neighbouring chunks. Meshers then close the surface up to the
+   * chunk's far faces, meeting the neighbours' meshes without a seam.
+   */
+  bordered?: boolean;
 }
 
 /**
@@ -40,17 +54,27 @@ export interface VoxelGrid {
  */
 export class MarchingCubes {
   private isoLevel = 0.5;
+  private materials: MaterialRegistry;
 
-  constructor(isoLevel = 0.5) {
+  constructor(isoLevel = 0.5, materials = MaterialRegistry.createDefault()) {
     this.isoLevel = isoLevel;
+    this.materials = materials;
   }
 
   setIsoLevel(level: number): void {
     this.isoLevel = level;
   }
 
+  setMaterials(materials: MaterialRegistry): void {
+    this.materials = materials;
+  }
+
   /**
    * Generate smooth mesh from voxel grid using marching cubes
+   *
+   * Vertices on an edge shared by neighbouring cubes are emitted once, and
+   * normals come from the density gradient, so the mesh is indexed and
+   * smooth-shaded.
    */
   generateMesh(grid: VoxelGrid): Mesh {
     const vertices: MeshVertex[] = [];
@@ -60,84 +84,122 @@ export class MarchingCubes {
     const sizeY = grid.getSizeY();
     const sizeZ = grid.getSizeZ();
 
-    // Iterate through each cube in the grid
-    for (let x = 0; x < sizeX - 1; x++) {
-      for (let y = 0; y < sizeY - 1; y++) {
-        for (let z = 0; z < sizeZ - 1; z++) {
-          this.processCube(grid, x, y, z, vertices, indices);
-        }
-      }
+    // Only cubes with a corner inside the occupied bounds can hold surface.
+    // A bordered grid also has the cubes reaching into the next chunk over.
+    const border = grid.bordered ? 1 : 0;
+    const bounds = grid.getBounds ? grid.getBounds() : undefined;
+    if (bounds === null) {
+      return { vertices, indices };
     }
-
-    return { vertices, indices };
-  }
-
-  /**
-   * Process a single cube and generate triangles
-   */
-  private processCube(
-    grid: VoxelGrid,
-    x: number,
-    y: number,
-    z: number,
-    vertices: MeshVertex[],
-    indices: number[]
-  ): void {
-    // Get density values at 8 corners
-    const cornerValues: number[] = [];
-    for (let i = 0; i < 8; i++) {
-      const [dx, dy, dz] = cornerOffsets[i];
-      cornerValues[i] = grid.getDensity(x + dx, y + dy, z + dz);
+    const minX = bounds ? Math.max(0, bounds.min.x - 1) : 0;
+    const minY = bounds ? Math.max(0, bounds.min.y - 1) : 0;
+    const minZ = bounds ? Math.max(0, bounds.min.z - 1) : 0;
+    const maxX = Math.min(sizeX - 1 + border, bounds ? bounds.max.x : sizeX);
+    const maxY = Math.min(sizeY - 1 + border, bounds ? bounds.max.y : sizeY);
+    const maxZ = Math.min(sizeZ - 1 + border, bounds ? bounds.max.z : sizeZ);
+    if (maxX <= minX || maxY <= minY || maxZ <= minZ) {
+      return { vertices, indices };
     }
 
-    // Determine cube configuration (0-255)
-    let cubeIndex = 0;
-    for (let i = 0; i < 8; i++) {
-      if (cornerValues[i] > this.isoLevel) {
-        cubeIndex |= 1 << i;
+    // One extra sample each side for the gradients
+    const field = new DensityField(
+      grid,
+      {
+        x: Math.max(-border, minX - 1),
+        y: Math.max(-border, minY - 1),
+        z: Math.max(-border, minZ - 1),
+      },
+      {
+        x: Math.min(sizeX - 1 + border, maxX + 1),
+        y: Math.min(sizeY - 1 + border, maxY + 1),
+        z: Math.min(sizeZ - 1 + border, maxZ + 1),
       }
-    }
+    );
 
-    // Check if cube is entirely inside or outside
-    if (edgeTable[cubeIndex] === 0) {
-      return;
-    }
+    // Vertex index per grid edge (lower corner, axis), -1 = not yet emitted
+    const pointsY = maxY - minY + 1;
+    const pointsZ = maxZ - minZ + 1;
+    const edgeVertex = new Int32Array(
+      (maxX - minX + 1) * pointsY * pointsZ * 3
+    ).fill(-1);
 
-    // Find interpolated vertices on edges
-    const edgeVertices: Vec3[] = new Array(12);
-    for (let i = 0; i < 12; i++) {
-      if (edgeTable[cubeIndex] & (1 << i)) {
-        const [c1, c2] = edgeConnections[i];
-        edgeVertices[i] = this.interpolateVertex(
-          x,
-          y,
-          z,
-          c1,
-          c2,
-          cornerValues[c1],
-          cornerValues[c2]
-        );
+    const cornerValues: number[] = new Array(8);
+    const cubeVertices: number[] = new Array(12);
+
+    // Iterate through each cube in the grid
+    for (let x = minX; x < maxX; x++) {
+      for (let y = minY; y < maxY; y++) {
+        for (let z = minZ; z < maxZ; z++) {
+          // Determine cube configuration (0-255)
+          let cubeIndex = 0;
+          for (let i = 0; i < 8; i++) {
+            const [dx, dy, dz] = cornerOffsets[i];
+            cornerValues[i] = field.get(x + dx, y + dy, z + dz);
+            if (cornerValues[i] > this.isoLevel) {
+              cubeIndex |= 1 << i;
+            }
+          }
+
+          // Check if cube is entirely inside or outside
+          const edges = edgeTable[cubeIndex];
+          if (edges === 0) continue;
+
+          for (let i = 0; i < 12; i++) {
+            if (!(edges & (1 << i))) continue;
+
+            const [c1, c2] = edgeConnections[i];
+            const [x1, y1, z1] = cornerOffsets[c1];
+            const [x2, y2, z2] = cornerOffsets[c2];
+            const axis = x1 !== x2 ? 0 : y1 !== y2 ? 1 : 2;
+            const key =
+              (((x + Math.min(x1, x2) - minX) * pointsY +
+                (y + Math.min(y1, y2) - minY)) *
+                pointsZ +
+                (z + Math.min(z1, z2) - minZ)) *
+                3 +
+              axis;
+
+            if (edgeVertex[key] < 0) {
+              edgeVertex[key] = vertices.length;
+              vertices.push(
+                this.createVertex(
+                  grid,
+                  field,
+                  x,
+                  y,
+                  z,
+                  c1,
+                  c2,
+                  cornerValues[c1],
+                  cornerValues[c2]
+                )
+              );
+            }
+            cubeVertices[i] = edgeVertex[key];
+          }
+
+          // Generate triangles (each set of 3 edges defines a triangle)
+          const triangulation = triTable[cubeIndex];
+          for (let i = 0; triangulation[i] !== -1; i += 3) {
+            indices.push(
+              cubeVertices[triangulation[i]],
+              cubeVertices[triangulation[i + 1]],
+              cubeVertices[triangulation[i + 2]]
+            );
+          }
+        }
       }
     }
 
-    // Generate triangles using simplified tri table
-    // For now, use a simple approach: connect edge vertices
-    this.generateTriangles(
-      cubeIndex,
-      edgeVertices,
-      grid,
-      x,
-      y,
-      z,
-      vertices,
-      indices
-    );
+    return { vertices, indices };
   }
 
   /**
-   * Interpolate vertex position along an edge
+   * Vertex where the surface crosses a cube edge
    */
-  private interpolateVertex(
+  private createVertex(
+    grid: VoxelGrid,
+    field: DensityField,
     x: number,
     y: number,
     z: number,
@@ -145,7 +207,7 @@ export class MarchingCubes {
     corner2: number,
     value1: number,
     value2: number
-  ): Vec3 {
+  ): MeshVertex {
     const [x1, y1, z1] = cornerOffsets[corner1];
     const [x2, y2, z2] = cornerOffsets[corner2];
 
@@ -153,106 +215,21 @@ export class MarchingCubes {
     const t = (this.isoLevel - value1) / (value2 - value1);
     const t_clamped = Math.max(0, Math.min(1, t));
 
-    return {
+    const position = {
       x: x + x1 + (x2 - x1) * t_clamped,
       y: y + y1 + (y2 - y1) * t_clamped,
       z: z + z1 + (z2 - z1) * t_clamped,
     };
-  }
 
-  /**
-   * Generate triangles for this cube configuration using the triangle table
-   */
-  private generateTriangles(
-    cubeIndex: number,
-    edgeVertices: Vec3[],
-    grid: VoxelGrid,
-    x: number,
-    y: number,
-    z: number,
-    vertices: MeshVertex[],
-    indices: number[]
-  ): void {
-    // Get the triangle configuration for this cube
-    const triangulation = triTable[cubeIndex];
-
-    // Get material color
-    const material = grid.getMaterial(x, y, z);
-    const color = this.getMaterialColor(material);
-
-    // Generate triangles (each set of 3 indices defines a triangle)
-    for (let i = 0; triangulation[i] !== -1; i += 3) {
-      const edge0 = triangulation[i];
-      const edge1 = triangulation[i + 1];
-      const edge2 = triangulation[i + 2];
+    // Material of the solid end, so vertices never pick up air
+    const [sx, sy, sz] = value1 > this.isoLevel ? [x1, y1, z1] : [x2, y2, z2];
+    const material = grid.getMaterial(x + sx, y + sy, z + sz);
 
-      // Get the interpolated vertex positions for this triangle
-      const v1 = edgeVertices[edge0];
-      const v2 = edgeVertices[edge1];
-      const v3 = edgeVertices[edge2];
-
-      if (v1 && v2 && v3) {
-        const startIdx = vertices.length;
-
-        // Calculate face normal
-        const normal = this.calculateNormal(v1, v2, v3);
-
-        // Add vertices with their normals and colors
-        vertices.push(
-          { position: v1, normal, color },
-          { position: v2, normal, color },
-          { position: v3, normal, color }
-        );
-
-        // Add triangle indices
-        indices.push(startIdx, startIdx + 1, startIdx + 2);
-      }
-    }
-  }
-
-  /**
-   * Calculate face normal from three vertices
-   */
-  private calculateNormal(v1: Vec3, v2: Vec3, v3: Vec3): Vec3 {
-    // Edge vectors
-    const e1x = v2.x - v1.x;
-    const e1y = v2.y - v1.y;
-    const e1z = v2.z - v1.z;
-
-    const e2x = v3.x - v1.x;
-    const e2y = v3.y - v1.y;
-    const e2z = v3.z - v1.z;
-
-    // Cross product
-    const nx = e1y * e2z - e1z * e2y;
-    const ny = e1z * e2x - e1x * e2z;
-    const nz = e1x * e2y - e1y * e2x;
-
-    // Normalize
-    const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
-    if (length > 0) {
-      return { x: nx / length, y: ny / length, z: nz / length };
-    }
-    return { x: 0, y: 1, z: 0 };
-  }
-
-  /**
-   * Get color based on material ID
-   */
-  private getMaterialColor(material: number): Vec3 {
-    switch (material) {
-      case 1:
-        return { x: 0.6, y: 0.6, z: 0.6 }; // Stone - gray
-      case 2:
-        return { x: 0.5, y: 0.4, z: 0.3 }; // Dirt - brown
-      case 3:
-        return { x: 0.3, y: 0.7, z: 0.3 }; // Grass - green
-      case 4:
-        return { x: 0.9, y: 0.3, z: 0.3 }; // Red
-      case 5:
-        return { x: 0.3, y: 0.4, z: 0.9 }; // Blue - brighter
-      default:
-        return { x: 0.8, y: 0.8, z: 0.8 }; // Light gray instead of white
-    }
+    return {
+      position,
+      normal: field.sampleNormal(position),
+      color: this.materials.getColor(material),
+      material,
+    };
   }
 }
@@ -0,0 +1,201 @@
+import { Vec3 } from "./types";
+import builtinMaterials from "@/materials/materials.json";
+
+/**
+ * Material as written in JSON:
+ *
+ *   { "id": 1, "name": "stone", "color": [0.6, 0.6, 0.6], "hardness": 3 }
+ */
+export interface MaterialDefinition {
+  id: number; // Voxel material value (0 is air)
+  name: string;
+  color: number[]; // RGB, 0-1
+  roughness?: number; // 0 = glossy, 1 = matte (default: 1)
+  emissive?: number; // Self-illumination added to the lit color (default: 0)
+  transparency?: number; // 0 = opaque, 1 = invisible (default: 0)
+  friction?: number; // Collider friction (default: 0.5)
+  restitution?: number; // Collider bounciness, 0-1 (default: 0.3)
+  hardness?: number; // Relative resistance to digging (default: 1)
+}
+
+/**
+ * Registered material with every property resolved
+ */
+export interface Material {
+  id: number;
+  name: string;
+  color: Vec3;
+  roughness: number;
+  emissive: number;
+  transparency: number;
+  friction: number;
+  restitution: number;
+  hardness: number;
+}
+
+/**
+ * Stand-in for material IDs that were never registered
+ */
+const UNKNOWN_MATERIAL: Material = {
+  id: -1,
+  name: "unknown",
+  color: { x: 0.8, y: 0.8, z: 0.8 },
+  roughness: 1,
+  emissive: 0,
+  transparency: 0,
+  friction: 0.5,
+  restitution: 0.3,
+  hardness: 1,
+};
+
+/**
+ * MaterialRegistry - voxel material IDs to names and surface properties,
+ * loadable from JSON
+ *
+ * Shared as a World resource: meshers take colours from it, the renderer
+ * roughness/emissive/transparency, and PhysicsSystem friction/restitution.
+ */
+export class MaterialRegistry {
+  private materials = new Map<number, Material>();
+  private ids = new Map<string, number>();
+  private version = 0;
+
+  /**
+   * Registry holding the built-in materials (stone, dirt, grass, ...)
+   */
+  static createDefault(): MaterialRegistry {
+    const registry = new MaterialRegistry();
+    registry.load(builtinMaterials);
+    return registry;
+  }
+
+  /**
+   * Register (or replace) a material
+   */
+  register(definition: MaterialDefinition): Material {
+    const { id, name, color } = definition;
+    if (!Number.isInteger(id) || id < 0) {
+      throw new Error(`Material "${name}" has invalid id ${id}`);
+    }
+
+    // Replacing an ID frees its old name
+    const previous = this.materials.get(id);
+    if (previous && this.ids.get(previous.name) === id) {
+      this.ids.delete(previous.name);
+    }
+    const existingId = this.ids.get(name);
+    if (existingId !== undefined && existingId !== id) {
+      throw new Error(
+        `Material name "${name}" is already used by id ${existingId}`
+      );
+    }
+
+    const material: Material = {
+      id,
+      name,
+      color: { x: color[0], y: color[1], z: color[2] },
+      roughness: definition.roughness ?? 1,
+      emissive: definition.emissive ?? 0,
+      transparency: definition.transparency ?? 0,
+      friction: definition.friction ?? 0.5,
+      restitution: definition.restitution ?? 0.3,
+      hardness: definition.hardness ?? 1,
+    };
+    this.materials.set(id, material);
+    this.ids.set(name, id);
+    this.version++;
+    return material;
+  }
+
+  /**
+   * Register materials from JSON text or parsed JSON
+   * Accepts a single definition, an array, or { "materials": [...] }
+   */
+  load(json: string | unknown): void {
+    const data = typeof json === "string" ? JSON.parse(json) : json;
+    const definitions: unknown[] = Array.isArray(data)
+      ? data
+      : Array.isArray((data as any)?.materials)
+      ? (data as any).materials
+      : [data];
+
+    for (const definition of definitions) {
+      const { id, name, color } = (definition ?? {}) as MaterialDefinition;
+      if (
+        typeof id !== "number" ||
+        typeof name !== "string" ||
+        !Array.isArray(color) ||
+        color.length < 3
+      ) {
+        throw new Error("Invalid material: expected { id, name, color }");
+      }
+      this.register(definition as MaterialDefinition);
+    }
+  }
+
+  /**
+   * Fetch and register materials from a JSON file
+   */
+  async loadFromUrl(url: string): Promise<void> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to load materials from ${url}: ${response.status}`
+      );
+    }
+    this.load(await response.json());
+  }
+
+  /**
+   * Material for an ID (a neutral grey stand-in if unregistered)
+   */
+  get(id: number): Material {
+    return this.materials.get(id) ?? UNKNOWN_MATERIAL;
+  }
+
+  has(id: number): boolean {
+    return this.materials.has(id);
+  }
+
+  getByName(name: string): Material | undefined {
+    const id = this.ids.get(name);
+    return id === undefined ? undefined : this.materials.get(id);
+  }
+
+  /**
+   * ID to store in voxels for a material name
+   */
+  getId(name: string): number {
+    const id = this.ids.get(name);
+    if (id === undefined) {
+      throw new Error(`Unknown material "${name}"`);
+    }
+    return id;
+  }
+
+  getColor(id: number): Vec3 {
+    return this.get(id).color;
+  }
+
+  getAll(): Material[] {
+    return Array.from(this.materials.values());
+  }
+
+  /**
+   * Highest registered ID (0 when empty)
+   */
+  getMaxId(): number {
+    let max = 0;
+    for (const id of this.materials.keys()) {
+      max = Math.max(max, id);
+    }
+    return max;
+  }
+
+  /**
+   * Incremented on every change, so consumers can tell when to re-read
+   */
+  getVersion(): number {
+    return this.version;
+  }
+}
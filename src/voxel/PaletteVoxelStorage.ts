@@ -0,0 +1,233 @@
+import { Vec3, Voxel, AABB } from "./types";
+import { VoxelStorage } from "./VoxelStorage";
+import { VoxelBounds } from "./VoxelBounds";
+
+const MAX_BITS = 16;
+
+/**
+ * Palette-compressed voxel storage
+ *
+ * Each distinct voxel value is stored once in a palette; voxels hold a
+ * bit-packed palette index. Bits per index grow (1, 2, 4, 8, 16) as the
+ * palette grows, so a chunk with two materials costs 1 bit per voxel.
+ * Densities are quantized to 1/255 like DenseVoxelStorage, so smooth data
+ * adds at most 256 entries per material. Palette entries are never reused automatically; call compact() after
+ * large edits to drop unused ones.
+ */
+export class PaletteVoxelStorage implements VoxelStorage {
+  private size: number;
+  private palette: Voxel[] = [];
+  private paletteLookup = new Map<string, number>();
+  private bits = 1;
+  private words: Uint32Array;
+  private bounds = new VoxelBounds();
+
+  constructor(size = 32) {
+    this.size = size;
+    this.words = new Uint32Array(this.wordCount(this.bits));
+    this.resetPalette();
+  }
+
+  getWorldSize(): number {
+    return this.size;
+  }
+
+  getVoxel(position: Vec3): Voxel | null {
+    const index = this.indexOf(position);
+    if (index < 0) return null;
+
+    const entry = this.readEntry(index);
+    return entry === 0 ? null : { ...this.palette[entry] };
+  }
+
+  setVoxel(position: Vec3, voxel: Voxel): void {
+    const index = this.indexOf(position);
+    if (index < 0) return;
+
+    // Quantized so near-equal densities share an entry
+    const density = Math.min(Math.max(voxel.density, 0), 1);
+    const quantized = density > 0 ? Math.max(1, Math.round(density * 255)) : 0;
+
+    const wasEmpty = this.readEntry(index) === 0;
+    const entry = quantized
+      ? this.paletteEntry({
+          density: quantized / 255,
+          material: voxel.material,
+        })
+      : 0;
+    this.writeEntry(index, entry);
+
+    const { x, y, z } = this.coordsOf(index);
+    if (wasEmpty && entry !== 0) {
+      this.bounds.add(x, y, z);
+    } else if (!wasEmpty && entry === 0) {
+      this.bounds.remove(x, y, z);
+    }
+  }
+
+  getDensity(position: Vec3): number {
+    const index = this.indexOf(position);
+    return index < 0 ? 0 : this.palette[this.readEntry(index)].density;
+  }
+
+  getMaterial(position: Vec3): number {
+    const index = this.indexOf(position);
+    return index < 0 ? 0 : this.palette[this.readEntry(index)].material;
+  }
+
+  forEachVoxel(
+    callback: (x: number, y: number, z: number, voxel: Voxel) => void
+  ): void {
+    const size = this.size;
+    const volume = size * size * size;
+    for (let index = 0; index < volume; index++) {
+      const entry = this.readEntry(index);
+      if (entry !== 0) {
+        const { x, y, z } = this.coordsOf(index);
+        callback(x, y, z, { ...this.palette[entry] });
+      }
+    }
+  }
+
+  forEachInRegion(
+    region: AABB,
+    callback: (x: number, y: number, z: number, voxel: Voxel) => void
+  ): void {
+    const size = this.size;
+    const maxX = Math.min(size, region.max.x);
+    const maxY = Math.min(size, region.max.y);
+    const maxZ = Math.min(size, region.max.z);
+    for (let z = Math.max(0, region.min.z); z < maxZ; z++) {
+      for (let y = Math.max(0, region.min.y); y < maxY; y++) {
+        for (let x = Math.max(0, region.min.x); x < maxX; x++) {
+          const entry = this.readEntry(x + size * (y + size * z));
+          if (entry !== 0) callback(x, y, z, { ...this.palette[entry] });
+        }
+      }
+    }
+  }
+
+  getBounds(): AABB | null {
+    return this.bounds.get((visit) => this.forEachVoxel(visit));
+  }
+
+  clear(): void {
+    this.bits = 1;
+    this.words = new Uint32Array(this.wordCount(this.bits));
+    this.resetPalette();
+    this.bounds.clear();
+  }
+
+  /**
+   * Number of distinct voxel values (including empty)
+   */
+  getPaletteSize(): number {
+    return this.palette.length;
+  }
+
+  getBitsPerEntry(): number {
+    return this.bits;
+  }
+
+  /**
+   * Rebuild the palette from the voxels actually in use
+   */
+  compact(): void {
+    const voxels: [number, number, number, Voxel][] = [];
+    this.forEachVoxel((x, y, z, voxel) => voxels.push([x, y, z, voxel]));
+
+    this.clear();
+    for (const [x, y, z, voxel] of voxels) {
+      this.setVoxel({ x, y, z }, voxel);
+    }
+  }
+
+  private resetPalette(): void {
+    this.palette = [{ density: 0, material: 0 }];
+    this.paletteLookup = new Map([[this.paletteKey(this.palette[0]), 0]]);
+  }
+
+  private paletteKey(voxel: Voxel): string {
+    return `${voxel.density}:${voxel.material}`;
+  }
+
+  /**
+   * Palette index for a voxel value, adding it (and widening indices) if new
+   */
+  private paletteEntry(voxel: Voxel): number {
+    const key = this.paletteKey(voxel);
+    let entry = this.paletteLookup.get(key);
+    if (entry !== undefined) return entry;
+
+    entry = this.palette.length;
+    if (entry >= 1 << this.bits) {
+      this.grow();
+    }
+
+    this.palette.push({ density: voxel.density, material: voxel.material });
+    this.paletteLookup.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Double the bits per entry, repacking all indices
+   */
+  private grow(): void {
+    if (this.bits >= MAX_BITS) {
+      throw new Error(
+        `PaletteVoxelStorage palette exceeds ${1 << MAX_BITS} entries`
+      );
+    }
+
+    const volume = this.size * this.size * this.size;
+    const oldBits = this.bits;
+    const oldWords = this.words;
+
+    this.bits = oldBits * 2;
+    this.words = new Uint32Array(this.wordCount(this.bits));
+
+    const oldMask = (1 << oldBits) - 1;
+    for (let index = 0; index < volume; index++) {
+      const bit = index * oldBits;
+      const entry = (oldWords[bit >>> 5] >>> (bit & 31)) & oldMask;
+      if (entry !== 0) this.writeEntry(index, entry);
+    }
+  }
+
+  private readEntry(index: number): number {
+    const bit = index * this.bits;
+    return (this.words[bit >>> 5] >>> (bit & 31)) & ((1 << this.bits) - 1);
+  }
+
+  private writeEntry(index: number, entry: number): void {
+    const bit = index * this.bits;
+    const word = bit >>> 5;
+    const shift = bit & 31;
+    const mask = ((1 << this.bits) - 1) << shift;
+    this.words[word] = (this.words[word] & ~mask) | (entry << shift);
+  }
+
+  private wordCount(bits: number): number {
+    return Math.ceil((this.size * this.size * this.size * bits) / 32);
+  }
+
+  private coordsOf(index: number): Vec3 {
+    const size = this.size;
+    return {
+      x: index % size,
+      y: Math.floor(index / size) % size,
+      z: Math.floor(index / (size * size)),
+    };
+  }
+
+  private indexOf(position: Vec3): number {
+    const x = Math.floor(position.x);
+    const y = Math.floor(position.y);
+    const z = Math.floor(position.z);
+    const size = this.size;
+    if (x < 0 || y < 0 || z < 0 || x >= size || y >= size || z >= size) {
+      return -1;
+    }
+    return x + size * (y + size * z);
+  }
+}
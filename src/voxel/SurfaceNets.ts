@@ -0,0 +1,25 @@
+import { Vec3 } from "./types";
+import { DualCell, DualMesher } from "./DualMesher";
+
+/**
+ * Surface Nets - each vertex at the average of its cell's edge crossings
+ *
+ * Smooth like marching cubes, but with well-shaped quads instead of slivers
+ * and every vertex shared. Sharp edges are rounded off.
+ */
+export class SurfaceNets extends DualMesher {
+  protected placeVertex(cell: DualCell): Vec3 {
+    const position = { x: 0, y: 0, z: 0 };
+    for (const crossing of cell.crossings) {
+      position.x += crossing.x;
+      position.y += crossing.y;
+      position.z += crossing.z;
+    }
+    const count = cell.crossings.length;
+    return {
+      x: position.x / count,
+      y: position.y / count,
+      z: position.z / count,
+    };
+  }
+}
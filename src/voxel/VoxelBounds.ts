@@ -0,0 +1,66 @@
+import { AABB } from "./types";
+
+/**
+ * Incrementally maintained bounds of the occupied voxels in a storage
+ *
+ * Adding a voxel grows the bounds in place. Removing one only marks them
+ * stale when it sat on the boundary; they are rebuilt by rescanning the
+ * storage on the next read.
+ */
+export class VoxelBounds {
+  private min = { x: 0, y: 0, z: 0 };
+  private max = { x: 0, y: 0, z: 0 }; // Exclusive
+  private empty = true;
+  private stale = false;
+
+  add(x: number, y: number, z: number): void {
+    if (this.stale) return;
+
+    if (this.empty) {
+      this.min = { x, y, z };
+      this.max = { x: x + 1, y: y + 1, z: z + 1 };
+      this.empty = false;
+      return;
+    }
+
+    this.min.x = Math.min(this.min.x, x);
+    this.min.y = Math.min(this.min.y, y);
+    this.min.z = Math.min(this.min.z, z);
+    this.max.x = Math.max(this.max.x, x + 1);
+    this.max.y = Math.max(this.max.y, y + 1);
+    this.max.z = Math.max(this.max.z, z + 1);
+  }
+
+  remove(x: number, y: number, z: number): void {
+    if (
+      !this.empty &&
+      (x === this.min.x ||
+        y === this.min.y ||
+        z === this.min.z ||
+        x === this.max.x - 1 ||
+        y === this.max.y - 1 ||
+        z === this.max.z - 1)
+    ) {
+      this.stale = true;
+    }
+  }
+
+  clear(): void {
+    this.empty = true;
+    this.stale = false;
+  }
+
+  /**
+   * Current bounds, or null when empty
+   * @param scan - Visits every occupied voxel; only called when stale
+   */
+  get(
+    scan: (visit: (x: number, y: number, z: number) => void) => void
+  ): AABB | null {
+    if (this.stale) {
+      this.clear();
+      scan((x, y, z) => this.add(x, y, z));
+    }
+    return this.empty ? null : { min: { ...this.min }, max: { ...this.max } };
+  }
+}
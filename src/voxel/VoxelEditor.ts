@@ -0,0 +1,324 @@
+import { Vec3, Voxel, AABB } from "./types";
+import { VoxelStorage } from "./VoxelStorage";
+import type { EditHistory } from "./EditHistory";
+
+/**
+ * Brush shape as a signed distance field, in voxels
+ * Negative inside, zero on the surface, positive outside.
+ */
+export interface Brush {
+  bounds: AABB; // Encloses the region where distance() <= 0
+  distance(position: Vec3): number;
+}
+
+export function sphereBrush(center: Vec3, radius: number): Brush {
+  return {
+    bounds: boundsAround(center, { x: radius, y: radius, z: radius }),
+    distance: (p) =>
+      Math.hypot(p.x - center.x, p.y - center.y, p.z - center.z) - radius,
+  };
+}
+
+export function boxBrush(center: Vec3, halfExtents: Vec3): Brush {
+  return {
+    bounds: boundsAround(center, halfExtents),
+    distance: (p) => {
+      const qx = Math.abs(p.x - center.x) - halfExtents.x;
+      const qy = Math.abs(p.y - center.y) - halfExtents.y;
+      const qz = Math.abs(p.z - center.z) - halfExtents.z;
+      const outside = Math.hypot(
+        Math.max(qx, 0),
+        Math.max(qy, 0),
+        Math.max(qz, 0)
+      );
+      return outside + Math.min(Math.max(qx, qy, qz), 0);
+    },
+  };
+}
+
+/**
+ * Upright (Y axis) cylinder
+ */
+export function cylinderBrush(
+  center: Vec3,
+  radius: number,
+  halfHeight: number
+): Brush {
+  return {
+    bounds: boundsAround(center, { x: radius, y: halfHeight, z: radius }),
+    distance: (p) => {
+      const dr = Math.hypot(p.x - center.x, p.z - center.z) - radius;
+      const dy = Math.abs(p.y - center.y) - halfHeight;
+      const outside = Math.hypot(Math.max(dr, 0), Math.max(dy, 0));
+      return outside + Math.min(Math.max(dr, dy), 0);
+    },
+  };
+}
+
+/**
+ * Brush from any signed distance function
+ * @param bounds - Must enclose every point where distance <= 0
+ */
+export function sdfBrush(
+  distance: (position: Vec3) => number,
+  bounds: AABB
+): Brush {
+  return { bounds, distance };
+}
+
+function boundsAround(center: Vec3, halfExtents: Vec3): AABB {
+  return {
+    min: {
+      x: center.x - halfExtents.x,
+      y: center.y - halfExtents.y,
+      z: center.z - halfExtents.z,
+    },
+    max: {
+      x: center.x + halfExtents.x,
+      y: center.y + halfExtents.y,
+      z: center.z + halfExtents.z,
+    },
+  };
+}
+
+export enum BrushMode {
+  /** Union: raise density towards the brush (sets the brush material) */
+  ADD = "add",
+  /** Difference: carve the brush shape out */
+  SUBTRACT = "subtract",
+  /** Change the material of existing voxels inside the brush */
+  PAINT = "paint",
+  /** Blur density towards the neighbourhood average */
+  SMOOTH = "smooth",
+}
+
+export interface BrushOptions {
+  material?: number; // Used by ADD and PAINT (default: 1)
+  strength?: number; // 0-1 blend towards the brush result (default: 1)
+  falloff?: number; // Width in voxels of the density ramp across the brush surface (default: 1)
+}
+
+/**
+ * What a brush can be applied to:
+ * - VoxelData (or anything with storage + markDirty): marked dirty on change
+ * - a VoxelStorage, in its local coordinates
+ * - ChunkManager, in world coordinates (marks touched chunks itself)
+ */
+export type VoxelEditTarget =
+  | { storage: VoxelStorage; markDirty(): void }
+  | Pick<VoxelStorage, "getVoxel" | "setVoxel">;
+
+const EMPTY: Voxel = { density: 0, material: 0 };
+
+/**
+ * VoxelEditor - applies brushes to voxel data
+ *
+ * Brush density is 0.5 - distance / falloff, clamped to [0, 1], so the
+ * brush surface lands exactly on the marching cubes iso level with a
+ * smooth ramp either side of it.
+ */
+export class VoxelEditor {
+  private history?: EditHistory;
+
+  /**
+   * @param history - Records every change for undo/redo
+   */
+  constructor(history?: EditHistory) {
+    this.history = history;
+  }
+
+  add(
+    target: VoxelEditTarget,
+    brush: Brush,
+    options?: BrushOptions
+  ): AABB | null {
+    return this.apply(target, brush, BrushMode.ADD, options);
+  }
+
+  subtract(
+    target: VoxelEditTarget,
+    brush: Brush,
+    options?: BrushOptions
+  ): AABB | null {
+    return this.apply(target, brush, BrushMode.SUBTRACT, options);
+  }
+
+  paint(
+    target: VoxelEditTarget,
+    brush: Brush,
+    options?: BrushOptions
+  ): AABB | null {
+    return this.apply(target, brush, BrushMode.PAINT, options);
+  }
+
+  smooth(
+    target: VoxelEditTarget,
+    brush: Brush,
+    options?: BrushOptions
+  ): AABB | null {
+    return this.apply(target, brush, BrushMode.SMOOTH, options);
+  }
+
+  /**
+   * Apply a brush
+   * @returns Bounds of the voxels that changed (max exclusive), or null if
+   * nothing changed
+   */
+  apply(
+    target: VoxelEditTarget,
+    brush: Brush,
+    mode: BrushMode,
+    options: BrushOptions = {}
+  ): AABB | null {
+    const voxels = "storage" in target ? target.storage : target;
+    const material = options.material ?? 1;
+    const strength = Math.min(Math.max(options.strength ?? 1, 0), 1);
+    const falloff = Math.max(options.falloff ?? 1, 1e-6);
+
+    const region = this.getRegion(voxels, brush.bounds, falloff / 2);
+
+    // Compute every change before writing so smoothing reads original values
+    const changes: [Vec3, Voxel, Voxel][] = [];
+    for (let x = region.min.x; x < region.max.x; x++) {
+      for (let y = region.min.y; y < region.max.y; y++) {
+        for (let z = region.min.z; z < region.max.z; z++) {
+          const position = { x, y, z };
+          const weight = Math.min(
+            Math.max(0.5 - brush.distance(position) / falloff, 0),
+            1
+          );
+          if (weight === 0) continue;
+
+          const current = voxels.getVoxel(position) ?? EMPTY;
+          const next = this.blend(
+            voxels,
+            position,
+            current,
+            weight,
+            strength,
+            mode,
+            material
+          );
+          if (
+            next.density !== current.density ||
+            next.material !== current.material
+          ) {
+            changes.push([position, current, next]);
+          }
+        }
+      }
+    }
+
+    if (changes.length === 0) return null;
+
+    const min = { ...changes[0][0] };
+    const max = { x: min.x + 1, y: min.y + 1, z: min.z + 1 };
+    for (const [position, , voxel] of changes) {
+      voxels.setVoxel(position, voxel);
+      min.x = Math.min(min.x, position.x);
+      min.y = Math.min(min.y, position.y);
+      min.z = Math.min(min.z, position.z);
+      max.x = Math.max(max.x, position.x + 1);
+      max.y = Math.max(max.y, position.y + 1);
+      max.z = Math.max(max.z, position.z + 1);
+    }
+
+    this.history?.record(
+      target,
+      changes.map(([position, before, after]) => ({ position, before, after }))
+    );
+
+    if ("storage" in target) {
+      target.markDirty();
+    }
+    return { min, max };
+  }
+
+  /**
+   * Integer region touched by a brush, clipped to the storage if bounded
+   */
+  private getRegion(
+    voxels: Pick<VoxelStorage, "getVoxel" | "setVoxel">,
+    bounds: AABB,
+    padding: number
+  ): AABB {
+    const region = {
+      min: {
+        x: Math.floor(bounds.min.x - padding),
+        y: Math.floor(bounds.min.y - padding),
+        z: Math.floor(bounds.min.z - padding),
+      },
+      max: {
+        x: Math.ceil(bounds.max.x + padding) + 1,
+        y: Math.ceil(bounds.max.y + padding) + 1,
+        z: Math.ceil(bounds.max.z + padding) + 1,
+      },
+    };
+
+    if ("getWorldSize" in voxels) {
+      const size = (voxels as VoxelStorage).getWorldSize();
+      region.min.x = Math.max(region.min.x, 0);
+      region.min.y = Math.max(region.min.y, 0);
+      region.min.z = Math.max(region.min.z, 0);
+      region.max.x = Math.min(region.max.x, size);
+      region.max.y = Math.min(region.max.y, size);
+      region.max.z = Math.min(region.max.z, size);
+    }
+
+    return region;
+  }
+
+  private blend(
+    voxels: Pick<VoxelStorage, "getVoxel">,
+    position: Vec3,
+    current: Voxel,
+    weight: number,
+    strength: number,
+    mode: BrushMode,
+    material: number
+  ): Voxel {
+    let density = current.density;
+    let voxelMaterial = current.material;
+
+    switch (mode) {
+      case BrushMode.ADD:
+        if (weight > density) {
+          density += (weight - density) * strength;
+          voxelMaterial = material;
+        }
+        break;
+      case BrushMode.SUBTRACT:
+        density += (Math.min(density, 1 - weight) - density) * strength;
+        break;
+      case BrushMode.PAINT:
+        if (density > 0 && weight >= 0.5) {
+          voxelMaterial = material;
+        }
+        break;
+      case BrushMode.SMOOTH: {
+        let sum = 0;
+        let densest = current;
+        for (let dx = -1; dx <= 1; dx++) {
+          for (let dy = -1; dy <= 1; dy++) {
+            for (let dz = -1; dz <= 1; dz++) {
+              const neighbour =
+                voxels.getVoxel({
+                  x: position.x + dx,
+                  y: position.y + dy,
+                  z: position.z + dz,
+                }) ?? EMPTY;
+              sum += neighbour.density;
+              if (neighbour.density > densest.density) densest = neighbour;
+            }
+          }
+        }
+        density += (sum / 27 - density) * weight * strength;
+        if (current.density === 0) voxelMaterial = densest.material;
+        break;
+      }
+    }
+
+    density = Math.min(Math.max(density, 0), 1);
+    return density > 0 ? { density, material: voxelMaterial } : EMPTY;
+  }
+}
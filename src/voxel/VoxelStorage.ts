@@ -0,0 +1,111 @@
+import { Vec3, Voxel, AABB } from "./types";
+import type { VoxelGrid } from "./MarchingCubes";
+import { BorderedVoxelStorage } from "./BorderedVoxelStorage";
+
+/**
+ * VoxelStorage - cube of voxels addressed by integer positions in
+ * [0, worldSize) on each axis
+ *
+ * Implementations trade memory for access speed:
+ * - Octree: sparse, good for mostly-empty volumes
+ * - DenseVoxelStorage: flat typed array, fastest random access
+ * - PaletteVoxelStorage: bit-packed palette indices, compact for chunks
+ *   with few distinct voxel values
+ *
+ * Positions are floored; reads outside the cube return empty, writes
+ * outside it are ignored. A density of 0 or less means empty.
+ */
+export interface VoxelStorage {
+  getWorldSize(): number;
+  getVoxel(position: Vec3): Voxel | null;
+  setVoxel(position: Vec3, voxel: Voxel): void;
+  getDensity(position: Vec3): number;
+  getMaterial(position: Vec3): number;
+  /** Visit every non-empty voxel */
+  forEachVoxel(
+    callback: (x: number, y: number, z: number, voxel: Voxel) => void
+  ): void;
+  /** Visit every non-empty voxel inside region (max exclusive) */
+  forEachInRegion(
+    region: AABB,
+    callback: (x: number, y: number, z: number, voxel: Voxel) => void
+  ): void;
+  /** Bounds of all non-empty voxels (max exclusive), or null when empty */
+  getBounds(): AABB | null;
+  clear(): void;
+}
+
+/**
+ * Most common material among the voxels denser than isoLevel, or null
+ * when there are none
+ */
+export function getDominantMaterial(
+  storage: VoxelStorage,
+  isoLevel = 0.5
+): number | null {
+  const counts = new Map<number, number>();
+  storage.forEachVoxel((_x, _y, _z, voxel) => {
+    if (voxel.density > isoLevel) {
+      counts.set(voxel.material, (counts.get(voxel.material) ?? 0) + 1);
+    }
+  });
+
+  let dominant: number | null = null;
+  let best = 0;
+  for (const [material, count] of counts) {
+    if (count > best) {
+      dominant = material;
+      best = count;
+    }
+  }
+  return dominant;
+}
+
+/**
+ * Bounds of the voxels denser than isoLevel (max exclusive), i.e. of the
+ * rendered surface rather than every non-empty voxel
+ * Visits every non-empty voxel, so cache the result where it runs often.
+ */
+export function getSolidBounds(
+  storage: VoxelStorage,
+  isoLevel = 0.5
+): AABB | null {
+  let min: Vec3 | null = null;
+  let max: Vec3 = { x: 0, y: 0, z: 0 };
+  storage.forEachVoxel((x, y, z, voxel) => {
+    if (voxel.density <= isoLevel) return;
+    if (!min) {
+      min = { x, y, z };
+      max = { x: x + 1, y: y + 1, z: z + 1 };
+      return;
+    }
+    min.x = Math.min(min.x, x);
+    min.y = Math.min(min.y, y);
+    min.z = Math.min(min.z, z);
+    max.x = Math.max(max.x, x + 1);
+    max.y = Math.max(max.y, y + 1);
+    max.z = Math.max(max.z, z + 1);
+  });
+  return min ? { min, max } : null;
+}
+
+/**
+ * Expose a storage through the VoxelGrid interface used by the smooth meshers
+ * A BorderedVoxelStorage gives a bordered grid, bounded by its neighbours'
+ * voxels too.
+ */
+export function createVoxelGrid(storage: VoxelStorage): VoxelGrid {
+  const size = storage.getWorldSize();
+  const bordered =
+    storage instanceof BorderedVoxelStorage ? storage : undefined;
+  return {
+    getSizeX: () => size,
+    getSizeY: () => size,
+    getSizeZ: () => size,
+    getDensity: (x, y, z) => storage.getDensity({ x, y, z }),
+    getMaterial: (x, y, z) => storage.getMaterial({ x, y, z }),
+    getBounds: () =>
+      bordered ? bordered.getBorderedBounds() : storage.getBounds(),
+    bordered: bordered !== undefined,
+  };
+}
@@ -1,4 +1,16 @@
 export { Octree } from "./Octree";
+export {
+  type VoxelStorage,
+  createVoxelGrid,
+  getSolidBounds,
+  getDominantMaterial,
+} from "./VoxelStorage";
+export { DenseVoxelStorage } from "./DenseVoxelStorage";
+export { PaletteVoxelStorage } from "./PaletteVoxelStorage";
+export {
+  BorderedVoxelStorage,
+  type ChunkNeighbours,
+} from "./BorderedVoxelStorage";
 export { CubicVoxelMesher } from "./CubicVoxelMesher";
 export {
   MarchingCubes,
@@ -6,5 +18,31 @@ export {
   type MeshVertex,
   type VoxelGrid,
 } from "./MarchingCubes";
+export { SurfaceNets } from "./SurfaceNets";
+export { DualContouring } from "./DualContouring";
+export { DualMesher, type DualCell } from "./DualMesher";
+export { DensityField } from "./DensityField";
 export { VoxelMeshGenerator } from "./VoxelMeshGenerator";
+export {
+  MaterialRegistry,
+  type Material,
+  type MaterialDefinition,
+} from "./MaterialRegistry";
 export type { Vec3, Voxel, AABB } from "./types";
+export {
+  VoxelEditor,
+  BrushMode,
+  sphereBrush,
+  boxBrush,
+  cylinderBrush,
+  sdfBrush,
+  type Brush,
+  type BrushOptions,
+  type VoxelEditTarget,
+} from "./VoxelEditor";
+export {
+  EditHistory,
+  type EditHistoryOptions,
+  type VoxelChange,
+} from "./EditHistory";
+export { worldToChunk, worldToLocal, chunkToWorld, chunkKey } from "./Chunks";
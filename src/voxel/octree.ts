@@ -1,26 +1,59 @@
 import { Vec3, Voxel, AABB } from "./types";
+import { VoxelStorage } from "./VoxelStorage";
+import { VoxelBounds } from "./VoxelBounds";
+
+const sameVoxel = (a: Voxel | null, b: Voxel | null): boolean =>
+  a === b ||
+  (a !== null &&
+    b !== null &&
+    a.density === b.density &&
+    a.material === b.material);
 
 /**
  * Octree node for sparse voxel storage
+ *
+ * A node is in one of three states:
+ * - uniform: `value` holds the voxel of every cell in the node (null = empty)
+ * - mixed leaf: `voxels` maps the non-empty cells of a max-level node
+ * - subdivided: eight children
+ * Nodes collapse back to uniform whenever their contents become homogeneous.
  */
 class OctreeNode {
   public bounds: AABB;
   public level: number;
   public maxLevel: number;
   public children: (OctreeNode | null)[] = new Array(8).fill(null);
-  public voxels = new Map<string, Voxel>();
+  public voxels: Map<string, Voxel> | null = null;
+  public value: Voxel | null = null;
   public isSubdivided = false;
-
-  constructor(bounds: AABB, level = 0, maxLevel = 6) {
+  public count = 0; // Non-empty voxels in this subtree
+  public cells: number; // Integer positions inside bounds
+
+  constructor(
+    bounds: AABB,
+    level = 0,
+    maxLevel = 6,
+    value: Voxel | null = null
+  ) {
     this.bounds = bounds;
     this.level = level;
     this.maxLevel = maxLevel;
+    this.cells =
+      (Math.ceil(bounds.max.x) - Math.ceil(bounds.min.x)) *
+      (Math.ceil(bounds.max.y) - Math.ceil(bounds.min.y)) *
+      (Math.ceil(bounds.max.z) - Math.ceil(bounds.min.z));
+    this.value = value;
+    this.count = value ? this.cells : 0;
   }
 
   isLeaf(): boolean {
     return this.level >= this.maxLevel;
   }
 
+  isUniform(): boolean {
+    return !this.isSubdivided && this.voxels === null;
+  }
+
   getCenter(): Vec3 {
     return {
       x: (this.bounds.min.x + this.bounds.max.x) / 2,
@@ -66,93 +99,293 @@ class OctreeNode {
     return { min, max };
   }
 
+  /**
+   * Split a uniform node into eight children holding its value
+   */
   subdivide(): void {
     if (this.isSubdivided || this.isLeaf()) return;
 
     for (let i = 0; i < 8; i++) {
       const bounds = this.getOctantBounds(i);
-      this.children[i] = new OctreeNode(bounds, this.level + 1, this.maxLevel);
+      this.children[i] = new OctreeNode(
+        bounds,
+        this.level + 1,
+        this.maxLevel,
+        this.value
+      );
     }
 
     this.isSubdivided = true;
+    this.value = null;
+  }
+
+  /**
+   * Turn a uniform max-level node into a per-cell map
+   */
+  expand(): void {
+    this.voxels = new Map();
+    if (this.value) {
+      this.forEachCell(this.bounds, (x, y, z) =>
+        this.voxels!.set(`${x},${y},${z}`, this.value!)
+      );
+    }
+    this.value = null;
+  }
+
+  /**
+   * Merge back to a uniform node if every cell holds the same voxel
+   */
+  tryCollapse(): void {
+    let value: Voxel | null;
+
+    if (this.isSubdivided) {
+      // Children without cells (fractional bounds) don't constrain the value
+      const children = this.children.filter((child) => child!.cells > 0);
+      if (!children.every((child) => child!.isUniform())) return;
+
+      value = children[0]?.value ?? null;
+      if (!children.every((child) => sameVoxel(child!.value, value))) return;
+
+      this.children.fill(null);
+      this.isSubdivided = false;
+    } else if (this.voxels) {
+      if (this.voxels.size === 0) {
+        value = null;
+      } else if (this.voxels.size === this.cells) {
+        const values = this.voxels.values();
+        value = values.next().value!;
+        for (const voxel of values) {
+          if (!sameVoxel(voxel, value)) return;
+        }
+      } else {
+        return;
+      }
 
-    // Move voxels to children
-    for (const [key, voxel] of this.voxels) {
-      const [x, y, z] = key.split(",").map(Number);
-      const point = { x, y, z };
-      const octantIndex = this.getOctantIndex(point);
-      this.children[octantIndex]!.voxels.set(key, voxel);
+      this.voxels = null;
+    } else {
+      return;
     }
 
-    this.voxels.clear();
+    this.value = value;
   }
 
-  setVoxel(position: Vec3, voxel: Voxel): void {
-    if (!this.containsPoint(position)) return;
+  /**
+   * @returns Change in voxel count (+1 added, -1 removed, 0 replaced/no-op)
+   */
+  setVoxel(position: Vec3, voxel: Voxel): number {
+    if (!this.containsPoint(position)) return 0;
+
+    const stored =
+      voxel.density <= 0
+        ? null
+        : { density: voxel.density, material: voxel.material };
+
+    if (this.isUniform()) {
+      if (sameVoxel(this.value, stored)) return 0;
+
+      if (this.cells === 1) {
+        const delta = (stored ? 1 : 0) - (this.value ? 1 : 0);
+        this.value = stored;
+        this.count += delta;
+        return delta;
+      }
 
-    const key = `${Math.floor(position.x)},${Math.floor(
-      position.y
-    )},${Math.floor(position.z)}`;
+      if (this.isLeaf()) {
+        this.expand();
+      } else {
+        this.subdivide();
+      }
+    }
 
-    if (this.isLeaf()) {
-      if (voxel.density === 0) {
-        this.voxels.delete(key);
+    let delta = 0;
+    if (this.voxels) {
+      const key = `${Math.floor(position.x)},${Math.floor(
+        position.y
+      )},${Math.floor(position.z)}`;
+      const existed = this.voxels.has(key);
+      if (stored) {
+        this.voxels.set(key, stored);
+        delta = existed ? 0 : 1;
       } else {
-        this.voxels.set(key, voxel);
+        this.voxels.delete(key);
+        delta = existed ? -1 : 0;
       }
     } else {
-      if (!this.isSubdivided) {
-        this.subdivide();
-      }
       const octantIndex = this.getOctantIndex(position);
-      this.children[octantIndex]?.setVoxel(position, voxel);
+      delta = this.children[octantIndex]?.setVoxel(position, voxel) ?? 0;
     }
+
+    this.count += delta;
+    this.tryCollapse();
+    return delta;
   }
 
   getVoxel(position: Vec3): Voxel | null {
     if (!this.containsPoint(position)) return null;
 
-    const key = `${Math.floor(position.x)},${Math.floor(
-      position.y
-    )},${Math.floor(position.z)}`;
+    if (this.isSubdivided) {
+      const octantIndex = this.getOctantIndex(position);
+      return this.children[octantIndex]?.getVoxel(position) || null;
+    }
 
-    if (this.isLeaf()) {
+    if (this.voxels) {
+      const key = `${Math.floor(position.x)},${Math.floor(
+        position.y
+      )},${Math.floor(position.z)}`;
       return this.voxels.get(key) || null;
-    } else if (this.isSubdivided) {
+    }
+
+    // Copy so callers can't modify the whole region through one voxel
+    return this.value ? { ...this.value } : null;
+  }
+
+  /**
+   * Average density and most common material of the node containing
+   * position at the given level
+   */
+  sampleAtLevel(position: Vec3, level: number): Voxel {
+    if (!this.containsPoint(position)) return { density: 0, material: 0 };
+
+    if (this.isUniform()) {
+      return this.value ? { ...this.value } : { density: 0, material: 0 };
+    }
+
+    if (this.isSubdivided && this.level < level) {
       const octantIndex = this.getOctantIndex(position);
-      return this.children[octantIndex]?.getVoxel(position) || null;
+      return this.children[octantIndex]!.sampleAtLevel(position, level);
     }
 
-    return null;
+    let densitySum = 0;
+    const materials = new Map<number, number>();
+    this.accumulate((voxel, cells) => {
+      densitySum += voxel.density * cells;
+      materials.set(
+        voxel.material,
+        (materials.get(voxel.material) ?? 0) + cells
+      );
+    });
+
+    let material = 0;
+    let best = 0;
+    for (const [id, cells] of materials) {
+      if (cells > best) {
+        material = id;
+        best = cells;
+      }
+    }
+
+    return {
+      density: this.cells > 0 ? densitySum / this.cells : 0,
+      material,
+    };
   }
 
-  getAllVoxels(): Map<string, Voxel> {
-    const result = new Map<string, Voxel>();
+  /**
+   * Visit the voxels of this subtree, with uniform regions reported once
+   */
+  accumulate(callback: (voxel: Voxel, cells: number) => void): void {
+    if (this.isSubdivided) {
+      for (const child of this.children) {
+        child?.accumulate(callback);
+      }
+    } else if (this.voxels) {
+      for (const voxel of this.voxels.values()) {
+        callback(voxel, 1);
+      }
+    } else if (this.value) {
+      callback(this.value, this.cells);
+    }
+  }
+
+  /**
+   * Visit non-empty voxels inside region, skipping empty subtrees
+   */
+  forEachInRegion(
+    region: AABB,
+    callback: (x: number, y: number, z: number, voxel: Voxel) => void
+  ): void {
+    if (this.count === 0 || !this.intersects(region)) return;
 
-    if (this.isLeaf()) {
+    if (this.isSubdivided) {
+      for (const child of this.children) {
+        child?.forEachInRegion(region, callback);
+      }
+    } else if (this.voxels) {
       for (const [key, voxel] of this.voxels) {
-        result.set(key, voxel);
+        const [x, y, z] = key.split(",").map(Number);
+        if (
+          x >= region.min.x &&
+          x < region.max.x &&
+          y >= region.min.y &&
+          y < region.max.y &&
+          z >= region.min.z &&
+          z < region.max.z
+        ) {
+          callback(x, y, z, voxel);
+        }
       }
-    } else if (this.isSubdivided) {
-      for (const child of this.children) {
-        if (child) {
-          for (const [key, voxel] of child.getAllVoxels()) {
-            result.set(key, voxel);
-          }
+    } else if (this.value) {
+      const value = this.value;
+      this.forEachCell(region, (x, y, z) => callback(x, y, z, { ...value }));
+    }
+  }
+
+  /**
+   * Visit the integer positions inside both this node and region
+   */
+  forEachCell(
+    region: AABB,
+    callback: (x: number, y: number, z: number) => void
+  ): void {
+    const { min, max } = this.bounds;
+    const minX = Math.ceil(Math.max(min.x, region.min.x));
+    const minY = Math.ceil(Math.max(min.y, region.min.y));
+    const minZ = Math.ceil(Math.max(min.z, region.min.z));
+    const maxX = Math.min(max.x, region.max.x);
+    const maxY = Math.min(max.y, region.max.y);
+    const maxZ = Math.min(max.z, region.max.z);
+
+    for (let x = minX; x < maxX; x++) {
+      for (let y = minY; y < maxY; y++) {
+        for (let z = minZ; z < maxZ; z++) {
+          callback(x, y, z);
         }
       }
     }
+  }
 
-    return result;
+  intersects(region: AABB): boolean {
+    return (
+      this.bounds.min.x < region.max.x &&
+      this.bounds.max.x > region.min.x &&
+      this.bounds.min.y < region.max.y &&
+      this.bounds.max.y > region.min.y &&
+      this.bounds.min.z < region.max.z &&
+      this.bounds.max.z > region.min.z
+    );
+  }
+
+  getNodeCount(): number {
+    let count = 1;
+    for (const child of this.children) {
+      if (child) count += child.getNodeCount();
+    }
+    return count;
   }
 }
 
 /**
  * Sparse voxel octree
+ *
+ * Nodes track how many voxels they contain, so iteration and region queries
+ * skip empty octants. Occupied bounds are maintained as voxels change.
+ * Homogeneous regions (all empty, or all the same voxel) are stored as a
+ * single node, and nodes merge back as soon as their contents become uniform.
  */
-export class Octree {
+export class Octree implements VoxelStorage {
   private root: OctreeNode;
   private worldSize: number;
+  private bounds = new VoxelBounds();
 
   constructor(worldSize = 64, maxLevel = 6) {
     this.worldSize = worldSize;
@@ -164,7 +397,16 @@ export class Octree {
   }
 
   setVoxel(position: Vec3, voxel: Voxel): void {
-    this.root.setVoxel(position, voxel);
+    const delta = this.root.setVoxel(position, voxel);
+    const x = Math.floor(position.x);
+    const y = Math.floor(position.y);
+    const z = Math.floor(position.z);
+
+    if (delta > 0) {
+      this.bounds.add(x, y, z);
+    } else if (delta < 0) {
+      this.bounds.remove(x, y, z);
+    }
   }
 
   getVoxel(position: Vec3): Voxel | null {
@@ -181,19 +423,71 @@ export class Octree {
     return voxel ? voxel.material : 0;
   }
 
+  /**
+   * Downsampled voxel for level-of-detail
+   * Averages density (empty cells count as 0) and picks the most common
+   * material over the node containing position at level, where level 0 is
+   * the whole octree and getMaxLevel() the finest nodes.
+   */
+  sampleAtLevel(position: Vec3, level: number): Voxel {
+    const clamped = Math.max(0, Math.min(level, this.root.maxLevel));
+    return this.root.sampleAtLevel(position, clamped);
+  }
+
   getAllVoxels(): Map<string, Voxel> {
-    return this.root.getAllVoxels();
+    const result = new Map<string, Voxel>();
+    this.forEachVoxel((x, y, z, voxel) => result.set(`${x},${y},${z}`, voxel));
+    return result;
+  }
+
+  forEachVoxel(
+    callback: (x: number, y: number, z: number, voxel: Voxel) => void
+  ): void {
+    this.root.forEachInRegion(this.root.bounds, callback);
+  }
+
+  forEachInRegion(
+    region: AABB,
+    callback: (x: number, y: number, z: number, voxel: Voxel) => void
+  ): void {
+    this.root.forEachInRegion(region, callback);
+  }
+
+  /**
+   * Bounds of all voxels (max exclusive), or null when empty
+   */
+  getBounds(): AABB | null {
+    return this.bounds.get((visit) => this.forEachVoxel(visit));
+  }
+
+  /**
+   * Number of non-empty voxels
+   */
+  getVoxelCount(): number {
+    return this.root.count;
+  }
+
+  /**
+   * Number of allocated nodes (for profiling memory use)
+   */
+  getNodeCount(): number {
+    return this.root.getNodeCount();
   }
 
   getWorldSize(): number {
     return this.worldSize;
   }
 
+  getMaxLevel(): number {
+    return this.root.maxLevel;
+  }
+
   clear(): void {
     const bounds: AABB = {
       min: { x: 0, y: 0, z: 0 },
       max: { x: this.worldSize, y: this.worldSize, z: this.worldSize },
     };
     this.root = new OctreeNode(bounds, 0, this.root.maxLevel);
+    this.bounds.clear();
   }
 }